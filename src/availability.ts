@@ -0,0 +1,107 @@
+import {
+	_checkSearchParameters,
+	_computeBoundaries,
+	_getTimeSlotsOfShifts,
+	_parseCalendars,
+	TimeSlotsFinderParameters,
+} from "./time-slots"
+import { getSearchShifts } from "./shifts"
+import { SlotGenerationMode } from "./slot-generation"
+import { getSlotSettings } from "./slot-settings"
+import {
+	DatePeriod,
+	DayjsPeriod,
+	SlotSettings,
+	TimeSlot,
+	TimeSlotsFinderConfiguration,
+} from "./types"
+
+/** The slots someone can take, with the events of their calendars. */
+export interface Availability {
+	/**
+	 * The slots this person can take, sorted by start: every slot fitting on their minute step (or
+	 * on their grid of anchored slots), wherever the slots offered around it are.
+	 */
+	bookableSlots: TimeSlot[]
+	/** The slots a search for this person alone offers, sorted by start, if asked. */
+	timeSlots: TimeSlot[]
+	/** The events of the calendars around the search. */
+	calendarEvents: DayjsPeriod[]
+	/** The configuration of the search, with the slot settings given. */
+	configuration: TimeSlotsFinderConfiguration
+}
+
+/**
+ * Find the slots someone can take, as a search for them alone does: the settings of shifts,
+ * capacities and quotas apply, and full slots are left out. Like the queries of a
+ * `TimeSlotsFinder`, the slot settings given override the global ones of the configuration, once
+ * it is checked. The calendars are parsed once for both searches.
+ * @throws {TimeSlotsFinderError} If the parameters are invalid.
+ * @param {TimeSlotsFinderParameters} params The parameters of a search for this person alone.
+ * @param {SlotSettings} slotSettings The checked slot settings of the search, if any.
+ * @param {boolean} withTimeSlots Whether the slots offered by a search for this person are needed.
+ * @returns {Availability}
+ */
+export function getAvailability(
+	params: TimeSlotsFinderParameters,
+	slotSettings: SlotSettings,
+	withTimeSlots = false,
+): Availability {
+	const { from, to, now } = params
+	const configuration = {
+		..._checkSearchParameters(params.configuration, from, to, now),
+		...getSlotSettings(slotSettings),
+	}
+	const { firstFromMoment, lastToMoment } = _computeBoundaries(from, to, configuration, now)
+	const searchShifts = getSearchShifts(configuration, firstFromMoment, lastToMoment)
+	const eventsSource = _parseCalendars(params, configuration)
+	/* Without shifts to search, no event is extracted */
+	let calendarEvents: DayjsPeriod[] = []
+	const bookableSlots = _getTimeSlotsOfShifts(
+		{ ...params, onSearchDetails: (details) => ({ calendarEvents } = details) },
+		_getBookableSlotsConfiguration(configuration),
+		searchShifts,
+		eventsSource,
+	)
+	const timeSlots = withTimeSlots
+		? _getTimeSlotsOfShifts(params, configuration, searchShifts, eventsSource)
+		: []
+	return {
+		bookableSlots: bookableSlots.filter((slot) => !slot.isFull),
+		timeSlots: timeSlots.filter((slot) => !slot.isFull),
+		calendarEvents,
+		configuration,
+	}
+}
+
+/**
+ * Index slots by their boundaries, to find out whether someone can take a slot found for others.
+ * @param {TimeSlot[]} timeSlots The slots someone can take.
+ * @returns {Record<string, TimeSlot>}
+ */
+export function indexTimeSlots(timeSlots: TimeSlot[]): Record<string, TimeSlot> {
+	const index: Record<string, TimeSlot> = {}
+	timeSlots.forEach((slot) => { index[getTimeSlotKey(slot)] = slot })
+	return index
+}
+
+/**
+ * Get the key of a slot in an index of slots.
+ * @param {DatePeriod} slot A slot.
+ * @returns {string}
+ */
+export function getTimeSlotKey(slot: DatePeriod): string {
+	return `${slot.startAt.getTime()}-${slot.endAt.getTime()}`
+}
+
+/* Anchored slots can only start on their grid, the other ones at any minute step */
+function _getBookableSlotsConfiguration(
+	configuration: TimeSlotsFinderConfiguration,
+): TimeSlotsFinderConfiguration {
+	return {
+		...configuration,
+		slotGenerationMode: configuration.slotGenerationMode === SlotGenerationMode.anchored
+			? SlotGenerationMode.anchored
+			: SlotGenerationMode.rolling,
+	}
+}
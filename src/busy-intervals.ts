@@ -0,0 +1,74 @@
+import { DayjsPeriod } from "./types"
+
+/**
+ * The busy time of a search (calendar events, unavailable periods...), normalized once: the
+ * intervals are sorted and merged when overlapping or adjacent, and their timestamps are kept for
+ * cheap comparisons. Each shift then finds its first interval with a binary search, instead of
+ * filtering and sorting every event again.
+ */
+export interface BusyIntervalIndex {
+	/** The busy intervals, sorted and without overlaps. */
+	intervals: DayjsPeriod[]
+	/** The timestamps the intervals start at. */
+	startAts: number[]
+	/** The timestamps the intervals end at. */
+	endAts: number[]
+}
+
+/* A period with its timestamps, computed once before sorting */
+interface TimedPeriod {
+	period: DayjsPeriod
+	startAt: number
+	endAt: number
+}
+
+/**
+ * Index busy periods, without mutating them.
+ * @param {DayjsPeriod[]} periods The busy periods, in any order.
+ * @returns {BusyIntervalIndex}
+ */
+export function createBusyIntervalIndex(periods: DayjsPeriod[]): BusyIntervalIndex {
+	const index: BusyIntervalIndex = { intervals: [], startAts: [], endAts: [] }
+	periods
+		.map((period): TimedPeriod => ({
+			period,
+			startAt: period.startAt.valueOf(),
+			endAt: period.endAt.valueOf(),
+		}))
+		.sort((a, b) => a.startAt - b.startAt)
+		.forEach(({ period, startAt, endAt }) => {
+			const last = index.intervals.length - 1
+			if (last < 0 || startAt > index.endAts[last]) {
+				index.intervals.push({ startAt: period.startAt, endAt: period.endAt })
+				index.startAts.push(startAt)
+				index.endAts.push(endAt)
+			} else if (endAt > index.endAts[last]) {
+				index.intervals[last] = {
+					startAt: index.intervals[last].startAt,
+					endAt: period.endAt,
+				}
+				index.endAts[last] = endAt
+			}
+		})
+	return index
+}
+
+/**
+ * Find the position of the first busy interval not yet ended at a moment.
+ * @param {BusyIntervalIndex} index The busy intervals.
+ * @param {number} timestamp The moment.
+ * @returns {number} The number of intervals if they all ended before.
+ */
+export function findFirstIntervalEndingAfter(index: BusyIntervalIndex, timestamp: number): number {
+	let low = 0
+	let high = index.endAts.length
+	while (low < high) {
+		const middle = Math.floor((low + high) / 2)
+		if (index.endAts[middle] > timestamp) {
+			high = middle
+		} else {
+			low = middle + 1
+		}
+	}
+	return low
+}
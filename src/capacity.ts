@@ -0,0 +1,38 @@
+import { DayjsPeriod, TimeSlot } from "./types"
+
+/**
+ * Compute the seats remaining in slots of group sessions: each calendar event overlapping a slot
+ * takes its number of seats in it (one by default). Full slots are removed, unless they are kept
+ * to be displayed as such. Without a capacity, slots are returned as they are.
+ * @param {TimeSlot[]} timeSlots The slots to compute the remaining capacity of.
+ * @param {DayjsPeriod[]} events The calendar events taking seats.
+ * @param {number} capacity The number of seats of each slot, if any.
+ * @param {boolean} keepFullSlots Whether full slots are returned, flagged with `isFull`.
+ * @returns {TimeSlot[]}
+ */
+export function applySlotCapacity(
+	timeSlots: TimeSlot[],
+	events: DayjsPeriod[],
+	capacity: number | undefined,
+	keepFullSlots = false,
+): TimeSlot[] {
+	if (capacity == null) {
+		return timeSlots
+	}
+	return timeSlots
+		.map((timeSlot) => {
+			const startAt = timeSlot.startAt.getTime()
+			const endAt = timeSlot.endAt.getTime()
+			/* Timestamps are compared directly, time zone aware comparisons being slow */
+			const takenSeats = events
+				.filter((event) => (
+					event.startAt.valueOf() < endAt && event.endAt.valueOf() > startAt
+				))
+				.reduce((seats, event) => seats + (event.seats ?? 1), 0)
+			const remainingCapacity = Math.max(capacity - takenSeats, 0)
+			return remainingCapacity > 0
+				? { ...timeSlot, remainingCapacity }
+				: { ...timeSlot, remainingCapacity, isFull: true }
+		})
+		.filter((timeSlot) => keepFullSlots || !timeSlot.isFull)
+}
@@ -1,15 +1,33 @@
 import dayjs from "dayjs"
 import { TimeSlotsFinderError } from "./errors"
-import { Period, Shift, TimeSlotsFinderConfiguration, AvailablePeriod, PeriodMoment } from "./types"
+import { checkPeriodRecurrence, isPeriodMomentValid } from "./unavailable-periods"
+import { haveSameSlotSettings } from "./slot-settings"
+import { checkBookingQuotas, checkQuotaLimits } from "./quotas"
+import { checkEventPadding } from "./event-padding"
+import { checkSlotGenerationMode } from "./slot-generation"
+import {
+	AvailabilityOverride,
+	AvailabilityOverrideMode,
+	AvailablePeriod,
+	Period,
+	Shift,
+	SlotSettings,
+	TimeSlotsFinderConfiguration,
+} from "./types"
 
 /**
  * Check the validity of a configuration for the time-slots service. If the configuration is
  * invalid, an error will be thrown to describe how it's invalid.
  * @throws {TimeSlotsFinderError}
  * @param {TimeSlotsFinderConfiguration} configuration
+ * @param {Date} now The moment giving the year of unavailable periods without years. Default value
+ * is now.
  * @return {boolean}
  */
-export function isConfigurationValid(configuration: TimeSlotsFinderConfiguration): boolean {
+export function isConfigurationValid(
+	configuration: TimeSlotsFinderConfiguration,
+	now?: Date,
+): boolean {
 	if (!configuration) {
 		throw new TimeSlotsFinderError("No configuration defined")
 	}
@@ -25,7 +43,23 @@ export function isConfigurationValid(configuration: TimeSlotsFinderConfiguration
 		_isAvailablePeriodValid(configuration.availablePeriods[i], i)
 	}
 
+	/* Dated overrides of the worked periods */
+	_checkAvailabilityOverrides(configuration)
+
+	/* Booking quotas and padding around calendar events */
+	checkBookingQuotas(configuration.quotas ?? [])
+	checkEventPadding(configuration.eventPadding ?? {})
+
 	/* Unworked periods */
+	_checkUnavailablePeriods(configuration, now)
+	return true
+}
+
+/* Check the unavailable periods, the ones without years being resolved in the year of `now` */
+export function _checkUnavailablePeriods(
+	configuration: TimeSlotsFinderConfiguration,
+	now?: Date,
+): void {
 	if (
 		configuration.unavailablePeriods != null
 		&& !Array.isArray(configuration.unavailablePeriods)
@@ -34,12 +68,14 @@ export function isConfigurationValid(configuration: TimeSlotsFinderConfiguration
 	}
 	if (configuration.unavailablePeriods) {
 		for (let i = 0; i < configuration.unavailablePeriods.length; i += 1) {
-			if (!_isUnavailablePeriodValid(configuration.unavailablePeriods[i])) {
+			if (!_isUnavailablePeriodValid(configuration.unavailablePeriods[i], now)) {
 				throw new TimeSlotsFinderError(`Unavailable period nº${i + 1} is invalid`)
 			}
+			if (configuration.unavailablePeriods[i].recurrence != null) {
+				checkPeriodRecurrence(configuration.unavailablePeriods[i], i)
+			}
 		}
 	}
-	return true
 }
 
 function _checkPrimitiveValue(configuration: TimeSlotsFinderConfiguration): boolean {
@@ -61,6 +97,10 @@ function _checkPrimitiveValue(configuration: TimeSlotsFinderConfiguration): bool
 	if (!_nullOrGreaterThanOrEqualTo(1, configuration.maxDaysBeforeLastSlot)) {
 		throw new TimeSlotsFinderError(`The number of days before latest slot must be at least 1`)
 	}
+	if (!_nullOrPositiveInteger(configuration.capacity)) {
+		throw new TimeSlotsFinderError(`Capacity must be an integer of at least 1`)
+	}
+	checkSlotGenerationMode(configuration.slotGenerationMode)
 	_checkTimeZone(configuration.timeZone)
 
 	const minBeforeFirst = configuration.minTimeBeforeFirstSlot
@@ -88,6 +128,9 @@ function _nullOrGreaterThanOrEqualTo(limit: number, value?: number): boolean {
 function _nullOrBetween(min: number, max: number, value?: number): boolean {
 	return value == null || (value >= min && value <= max)
 }
+function _nullOrPositiveInteger(value?: number): boolean {
+	return value == null || (Number.isInteger(value) && value >= 1)
+}
 
 /**
  * Return a reformatted array of availablePeriods without overlapping shifts. Not mutating the
@@ -105,7 +148,9 @@ export function _mergeOverlappingShiftsInAvailablePeriods(
 }
 
 /**
- * Check the validity of a configuration for the time-slots service.
+ * Check the validity of a configuration for the time-slots service. Overnight shifts are merged
+ * with the shifts they overlap as long as the result lasts less than a day. Adjacent shifts are
+ * only merged when they produce the same slots.
  * @param {Shift[]} shifts The shifts to refactor into non-overlapping shifts.
  * @returns {Shift[]}
  */
@@ -117,10 +162,19 @@ export function _mergeOverlappingShifts(shifts: Shift[]): Shift[] {
 	const sortedShifts = [...shifts].sort((a, b) => a.startTime.localeCompare(b.startTime))
 
 	for (let i = 0; i < sortedShifts.length - 1; i += 1) {
-		if (sortedShifts[i].endTime.localeCompare(sortedShifts[i + 1].startTime) >= 0) {
-			if (sortedShifts[i].endTime.localeCompare(sortedShifts[i + 1].endTime) < 0) {
+		const shiftEnd = _getShiftEnd(sortedShifts[i])
+		const nextShiftEnd = _getShiftEnd(sortedShifts[i + 1])
+		const mergedDuration = Math.max(shiftEnd, nextShiftEnd)
+			- _getMinutes(sortedShifts[i].startTime)
+		const nextShiftStart = _getMinutes(sortedShifts[i + 1].startTime)
+		const isOverlapping = shiftEnd > nextShiftStart || (
+			shiftEnd === nextShiftStart
+			&& haveSameSlotSettings(sortedShifts[i], sortedShifts[i + 1])
+		)
+		if (isOverlapping && mergedDuration < 24 * 60) {
+			if (shiftEnd < nextShiftEnd) {
 				sortedShifts[i] = {
-					startTime: sortedShifts[i].startTime,
+					...sortedShifts[i],
 					endTime: sortedShifts[i + 1].endTime,
 				}
 			}
@@ -133,20 +187,31 @@ export function _mergeOverlappingShifts(shifts: Shift[]): Shift[] {
 	return sortedShifts
 }
 
+/* Convert a time in the `HH:mm` format to minutes since the start of the day */
+function _getMinutes(time: string): number {
+	return (parseInt(time.slice(0, 2), 10) * 60) + parseInt(time.slice(3), 10)
+}
+
+/* Get the end of a shift in minutes since the start of its day: overnight ones end the day after */
+function _getShiftEnd(shift: Shift): number {
+	const end = _getMinutes(shift.endTime)
+	return end < _getMinutes(shift.startTime) ? end + (24 * 60) : end
+}
+
 /**
  * Check the validity of a configuration for the time-slots service.
  * @param {Period} period The shifts to refactor into non-overlapping shifts.
  * @returns {boolean}
  */
-export function _isUnavailablePeriodValid(period: Period): boolean {
+export function _isUnavailablePeriodValid(period: Period, now?: Date): boolean {
 	return Boolean(
 		period
 		&& period.startAt
 		&& period.endAt
 		/* Both have year, or both have not */
 		&& (period.startAt.year == null) === (period.endAt.year == null)
-		&& _isPeriodMomentValid(period.startAt)
-		&& _isPeriodMomentValid(period.endAt)
+		&& isPeriodMomentValid(period.startAt, now)
+		&& isPeriodMomentValid(period.endAt, now)
 		/**
 		 * If the year value isn't specified, endAt can precede startAt, and
 		 * doing so will set the endAt year value to the following year if needed.
@@ -172,46 +237,136 @@ function _isAvailablePeriodValid(availablePeriod: AvailablePeriod, index: number
 	if (availablePeriod.isoWeekDay < 1 || availablePeriod.isoWeekDay > 7) {
 		throw new TimeSlotsFinderError(`ISO Weekday must be contains between 1 (Monday) and 7 (Sunday) for available period nº${index + 1}`)
 	}
-	for (const shift of availablePeriod.shifts) {
+	_checkSlotSettings(availablePeriod, `available period nº${index + 1}`)
+	_checkShifts(availablePeriod.shifts, `available period nº${index + 1}`)
+
+	return true
+}
+
+/* Check the shifts of an available period or an availability override, named by `owner` */
+function _checkShifts(shifts: Shift[], owner: string) {
+	for (const shift of shifts) {
 		if (!_isShiftValid(shift)) {
-			throw new TimeSlotsFinderError(`Daily shift ${shift.startTime} - ${shift.endTime} for available period nº${index + 1} is invalid`)
+			throw new TimeSlotsFinderError(`Daily shift ${shift.startTime} - ${shift.endTime} for ${owner} is invalid`)
+		}
+		if (!_nullOrPositiveInteger(shift.capacity)) {
+			throw new TimeSlotsFinderError(`Capacity of daily shift ${shift.startTime} - ${shift.endTime} for ${owner} must be an integer of at least 1`)
+		}
+		_checkSlotSettings(shift, `daily shift ${shift.startTime} - ${shift.endTime} for ${owner}`)
+		if (shift.quota != null) {
+			checkQuotaLimits(shift.quota, `the quota of daily shift ${shift.startTime} - ${shift.endTime} for ${owner}`)
 		}
 	}
-	if (_mergeOverlappingShifts(availablePeriod.shifts).length !== availablePeriod.shifts.length) {
-		throw new TimeSlotsFinderError(`Some shifts are overlapping for available period nº${index + 1}`)
+	if (_mergeOverlappingShifts(shifts).length !== shifts.length) {
+		throw new TimeSlotsFinderError(`Some shifts are overlapping for ${owner}`)
 	}
+}
 
-	return true
+/* Check the slot settings an available period or a shift overrides, named by `owner` */
+export function _checkSlotSettings(settings: SlotSettings, owner: string): void {
+	if (!_nullOrGreaterThanOrEqualTo(1, settings.timeSlotDuration)) {
+		throw new TimeSlotsFinderError(`Slot duration must be at least 1 minute for ${owner}`)
+	}
+	if (!_nullOrBetween(1, 30, settings.slotStartMinuteStep)) {
+		throw new TimeSlotsFinderError(`Slot start minute step must be contained between 1 and 30 for ${owner}`)
+	}
+	if (!_nullOrGreaterThanOrEqualTo(0, settings.minAvailableTimeBeforeSlot)) {
+		throw new TimeSlotsFinderError(`Time before a slot must be at least 0 minutes for ${owner}`)
+	}
+	if (!_nullOrGreaterThanOrEqualTo(0, settings.minAvailableTimeAfterSlot)) {
+		throw new TimeSlotsFinderError(`Time after a slot must be at least 0 minutes for ${owner}`)
+	}
+}
+
+/* Check each availability override, and that no date is overridden twice */
+function _checkAvailabilityOverrides(configuration: TimeSlotsFinderConfiguration) {
+	const { availabilityOverrides, availablePeriods } = configuration
+	if (availabilityOverrides == null) {
+		return
+	}
+	if (!Array.isArray(availabilityOverrides)) {
+		throw new TimeSlotsFinderError("A list of availability overrides is expected")
+	}
+	availabilityOverrides.forEach((override, index) => {
+		_isAvailabilityOverrideValid(override, index, availablePeriods)
+		const overlappingIndex = availabilityOverrides
+			.slice(0, index)
+			.findIndex((other) => (
+				other.startDate <= (override.endDate ?? override.startDate)
+				&& override.startDate <= (other.endDate ?? other.startDate)
+			))
+		if (overlappingIndex >= 0) {
+			throw new TimeSlotsFinderError(`Availability overrides nº${overlappingIndex + 1} and nº${index + 1} are overlapping`)
+		}
+	})
 }
 
 /**
- * Indicate either if the provided date string is valid or not.
- * @param {PeriodMoment} periodMoment The date object to check.
+ * Indicate if an availability override is valid or not. Throws if not valid. Added shifts can't
+ * overlap the weekly shifts of the dates they are added to.
+ * @param {AvailabilityOverride} override The override to check.
+ * @param {number} index The index of the override in the list.
+ * @param {AvailablePeriod[]} availablePeriods The weekly available periods.
  * @returns {boolean}
  */
-function _isPeriodMomentValid(periodMoment: PeriodMoment) {
-	if (periodMoment.hour == null && periodMoment.minute != null) {
-		return false
+function _isAvailabilityOverrideValid(
+	override: AvailabilityOverride,
+	index: number,
+	availablePeriods: AvailablePeriod[],
+) {
+	const owner = `availability override nº${index + 1}`
+	const endDate = override?.endDate ?? override?.startDate
+	if (!override || !_isDateValid(override.startDate) || !_isDateValid(endDate)) {
+		throw new TimeSlotsFinderError(`Dates must be in the YYYY-MM-DD format for ${owner}`)
 	}
+	if (endDate < override.startDate) {
+		throw new TimeSlotsFinderError(`End date is before start date for ${owner}`)
+	}
+	const modes: string[] = [AvailabilityOverrideMode.add, AvailabilityOverrideMode.replace]
+	if (override.mode != null && modes.indexOf(override.mode) < 0) {
+		throw new TimeSlotsFinderError(`Invalid mode for ${owner}: ${override.mode}`)
+	}
+	if (!Array.isArray(override.shifts)) {
+		throw new TimeSlotsFinderError(`A list of shifts is expected for ${owner}`)
+	}
+	_checkShifts(override.shifts, owner)
+	const isOverlappingWeeklyShifts = _getOverriddenWeekDayShifts(override, availablePeriods)
+		.some((weekDayShift) => override.shifts.some((shift) => (
+			_areShiftsOverlapping(shift, weekDayShift)
+		)))
+	if (override.mode === AvailabilityOverrideMode.add && isOverlappingWeeklyShifts) {
+		throw new TimeSlotsFinderError(`Shifts of ${owner} are overlapping weekly shifts`)
+	}
+	return true
+}
 
-	const isYearAndMonthValid = (
-		(periodMoment.year == null || periodMoment.year > 0)
-		&& periodMoment.month >= 0 && periodMoment.month <= 11
-	)
-
-	if (!isYearAndMonthValid) {
-		return false
+/* List the weekly shifts of the weekdays covered by an override */
+function _getOverriddenWeekDayShifts(
+	override: AvailabilityOverride,
+	availablePeriods: AvailablePeriod[],
+): Shift[] {
+	const startDay = dayjs(override.startDate, "YYYY-MM-DD")
+	const endDay = dayjs(override.endDate ?? override.startDate, "YYYY-MM-DD")
+	const isoWeekDays: number[] = []
+	let day = startDay
+	/* A week covers every weekday */
+	while (!day.isAfter(endDay) && isoWeekDays.length < 7) {
+		isoWeekDays.push(day.isoWeekday())
+		day = day.add(1, "day")
 	}
+	return availablePeriods
+		.filter((availablePeriod) => isoWeekDays.indexOf(availablePeriod.isoWeekDay) >= 0)
+		.reduce((shifts: Shift[], availablePeriod) => shifts.concat(availablePeriod.shifts), [])
+}
 
-	/* The day check depends on month and year */
-	let day = dayjs().month(periodMoment.month)
-	if (periodMoment.year) { day = day.year(periodMoment.year) }
+/* Shifts only sharing a boundary don't overlap */
+function _areShiftsOverlapping(a: Shift, b: Shift): boolean {
+	return _getMinutes(a.startTime) < _getShiftEnd(b) && _getMinutes(b.startTime) < _getShiftEnd(a)
+}
 
-	return (
-		periodMoment.day >= 1 && periodMoment.day <= day.daysInMonth()
-		&& (periodMoment.hour == null || (periodMoment.hour >= 0 && periodMoment.hour <= 23))
-		&& (periodMoment.minute == null || (periodMoment.minute >= 0 && periodMoment.minute <= 59))
-	)
+/* Indicate if a date is a valid calendar date in the `YYYY-MM-DD` format */
+function _isDateValid(date?: string): boolean {
+	return typeof date === "string" && dayjs(date, "YYYY-MM-DD", true).isValid()
 }
 
 /**
@@ -230,6 +385,7 @@ function _isShiftValid(shift: Shift) {
 		&& startMinute >= 0 && startMinute <= 59
 		&& endHour >= 0 && endHour <= 23
 		&& endMinute >= 0 && endMinute <= 59
-		&& shift.endTime.localeCompare(shift.startTime) > 0
+		/* Shifts ending before their start are overnight ones */
+		&& shift.endTime !== shift.startTime
 	)
 }
@@ -0,0 +1,140 @@
+import { TimeSlotsFinderError } from "./errors"
+import { DayjsPeriod, TimeSlotsFinderConfiguration } from "./types"
+
+/** A rule giving the padding of the calendar events matching all its conditions. */
+export interface EventPaddingRule {
+	/** Events having one of these categories match, case insensitively. */
+	categories?: string[]
+	/** Events whose summary matches this regular expression match, case insensitively. */
+	summaryPattern?: string | RegExp
+	/** Whether events with a location (true) or without (false) match. */
+	hasLocation?: boolean
+	/** The minutes of free time required before the matching events. Default is the global one. */
+	before?: number
+	/** The minutes of free time required after the matching events. Default is the global one. */
+	after?: number
+}
+
+/** The free time required around the existing calendar events. */
+export interface EventPadding {
+	/** The minutes of free time required before each event. Default value is 0. */
+	before?: number
+	/** The minutes of free time required after each event. Default value is 0. */
+	after?: number
+	/** Rules giving a specific padding to some events. The first matching rule applies. */
+	rules?: EventPaddingRule[]
+}
+
+/* The padding of a rule, with its summary pattern compiled */
+interface CompiledPaddingRule extends EventPaddingRule {
+	summaryRegExp: RegExp | null
+}
+
+/**
+ * Check the padding required around calendar events. Throws if not valid.
+ * @param {EventPadding} eventPadding The padding of the configuration.
+ */
+export function checkEventPadding(eventPadding: EventPadding): void {
+	_checkPaddingMinutes(eventPadding)
+	if (eventPadding.rules == null) {
+		return
+	}
+	if (!Array.isArray(eventPadding.rules)) {
+		throw new TimeSlotsFinderError("A list of event padding rules is expected")
+	}
+	eventPadding.rules.forEach((rule, index) => {
+		const owner = `event padding rule nº${index + 1}`
+		_checkPaddingMinutes(rule, owner)
+		const { categories, summaryPattern, hasLocation } = rule
+		if (categories != null && !_isStringList(categories)) {
+			throw new TimeSlotsFinderError(`Categories must be a list of strings for ${owner}`)
+		}
+		if (summaryPattern != null && !_isPatternValid(summaryPattern)) {
+			throw new TimeSlotsFinderError(`Invalid summary pattern for ${owner}`)
+		}
+		if (hasLocation != null && typeof hasLocation !== "boolean") {
+			throw new TimeSlotsFinderError(`Location presence must be a boolean for ${owner}`)
+		}
+	})
+}
+
+/**
+ * Get the longest padding an event of the configuration can have, before or after it.
+ * @param {TimeSlotsFinderConfiguration} configuration A valid configuration.
+ * @returns {number}
+ */
+export function getMaxEventPadding(configuration: TimeSlotsFinderConfiguration): number {
+	const { before = 0, after = 0, rules = [] } = configuration.eventPadding ?? {}
+	return rules.reduce((max, rule) => (
+		Math.max(max, rule.before ?? before, rule.after ?? after)
+	), Math.max(before, after))
+}
+
+/**
+ * Extend calendar events with the free time they require around them: the padding of the first
+ * rule they match, or the global one.
+ * @param {DayjsPeriod[]} events The calendar events.
+ * @param {EventPadding} eventPadding The padding of the configuration, if any.
+ * @returns {DayjsPeriod[]}
+ */
+export function padEvents(events: DayjsPeriod[], eventPadding?: EventPadding): DayjsPeriod[] {
+	if (!eventPadding) {
+		return events
+	}
+	const rules: CompiledPaddingRule[] = (eventPadding.rules ?? []).map((rule) => ({
+		...rule,
+		summaryRegExp: rule.summaryPattern == null ? null : new RegExp(rule.summaryPattern, "i"),
+	}))
+	return events.map((event) => {
+		const rule = rules.find((candidate) => _isRuleMatching(candidate, event))
+		const before = rule?.before ?? eventPadding.before ?? 0
+		const after = rule?.after ?? eventPadding.after ?? 0
+		if (!before && !after) {
+			return event
+		}
+		return {
+			...event,
+			startAt: event.startAt.subtract(before, "minute"),
+			endAt: event.endAt.add(after, "minute"),
+		}
+	})
+}
+
+/* A rule matches the events meeting all its conditions */
+function _isRuleMatching(rule: CompiledPaddingRule, event: DayjsPeriod): boolean {
+	const categories = (rule.categories ?? []).map((category) => category.toLowerCase())
+	return (
+		rule.categories == null
+		|| (event.categories ?? []).some((category) => (
+			categories.indexOf(category.toLowerCase()) >= 0
+		))
+	)
+		&& (rule.summaryRegExp == null || rule.summaryRegExp.test(event.summary ?? ""))
+		&& (rule.hasLocation == null || rule.hasLocation === Boolean(event.location?.trim()))
+}
+
+/* Check the padding of the configuration, or of a rule named by `owner` */
+function _checkPaddingMinutes(padding: { before?: number, after?: number }, owner?: string) {
+	const suffix = owner ? ` for ${owner}` : ""
+	if (padding.before != null && !(padding.before >= 0)) {
+		throw new TimeSlotsFinderError(`Padding before events must be at least 0 minutes${suffix}`)
+	}
+	if (padding.after != null && !(padding.after >= 0)) {
+		throw new TimeSlotsFinderError(`Padding after events must be at least 0 minutes${suffix}`)
+	}
+}
+
+function _isStringList(values: unknown): boolean {
+	return Array.isArray(values) && values.every((value) => typeof value === "string")
+}
+
+function _isPatternValid(pattern: string | RegExp): boolean {
+	if (pattern instanceof RegExp) {
+		return true
+	}
+	try {
+		return typeof pattern === "string" && Boolean(new RegExp(pattern))
+	} catch (_) {
+		return false
+	}
+}
@@ -0,0 +1,79 @@
+import {
+	CalendarExtractionOptions,
+	DayjsPeriod,
+	EventAvailability,
+	EventBlockingPolicy,
+} from "../types"
+
+/** A period of a calendar, with the way it occupies the calendar. */
+export interface AvailabilityPeriod extends DayjsPeriod {
+	availability: EventAvailability
+}
+
+/**
+ * Indicate if an event makes the time unavailable, according to its availability and to the
+ * provided policy.
+ * @param {EventAvailability} availability The availability of the event.
+ * @param {EventBlockingPolicy} policy The policy to apply.
+ * @returns {boolean}
+ */
+export function isEventBlockingTime(
+	availability: EventAvailability,
+	policy: EventBlockingPolicy = {},
+): boolean {
+	switch (availability) {
+	case EventAvailability.tentative:
+		return policy.tentativeBlocksTime ?? true
+	case EventAvailability.free:
+		return policy.transparentBlocksTime ?? false
+	case EventAvailability.cancelled:
+		return policy.cancelledBlocksTime ?? false
+	case EventAvailability.workingElsewhere:
+		return policy.workingElsewhereBlocksTime ?? false
+	case EventAvailability.declined:
+		return false
+	default:
+		return true
+	}
+}
+
+/**
+ * Indicate if an email address belongs to the calendar owner. Addresses may be prefixed with the
+ * `mailto:` scheme, and are compared case insensitively.
+ * @param {string} address The address to check.
+ * @param {EventBlockingPolicy} policy The policy containing the owner addresses.
+ * @returns {boolean}
+ */
+export function isOwnerAddress(address: string, policy: EventBlockingPolicy = {}): boolean {
+	const normalize = (value: string) => value
+		.replace(/^mailto:/i, "")
+		.trim()
+		.toLowerCase()
+	return (policy.ownerEmails ?? []).some((email) => normalize(email) === normalize(address))
+}
+
+/**
+ * Keep the periods making the time unavailable and overlapping the search window, expressed in
+ * the preferred time zone. Used by the extractors of formats only giving busy periods.
+ * @param {AvailabilityPeriod[]} periods The periods to filter.
+ * @param {string} timeZone The preferred time zone.
+ * @param {CalendarExtractionOptions} options
+ * @returns {DayjsPeriod[]}
+ */
+export function getBlockingPeriods(
+	periods: AvailabilityPeriod[],
+	timeZone: string,
+	options: CalendarExtractionOptions = {},
+): DayjsPeriod[] {
+	const { searchWindow, eventBlockingPolicy } = options
+	return periods
+		.filter((period) => isEventBlockingTime(period.availability, eventBlockingPolicy))
+		.filter((period) => (
+			!searchWindow
+			|| (
+				period.startAt.valueOf() < searchWindow.endAt.valueOf()
+				&& period.endAt.valueOf() > searchWindow.startAt.valueOf()
+			)
+		))
+		.map(({ startAt, endAt }) => ({ startAt: startAt.tz(timeZone), endAt: endAt.tz(timeZone) }))
+}
@@ -1,23 +1,278 @@
-import { extractEventsFromICal } from "./ical"
-import { DayjsPeriod, TimeSlotsFinderCalendarFormat } from "../types"
+import dayjs from "dayjs"
+import { extractEventsFromICal, parseICalCalendar } from "./ical"
+import { extractEventsFromJCal, parseJCalCalendar } from "./jcal"
+import { extractEventsFromGoogleFreeBusy } from "./google-free-busy"
+import { extractEventsFromGraphSchedule } from "./microsoft-graph-schedule"
+import {
+	CalendarExtractionOptions,
+	CalendarExtractor,
+	DayjsPeriod,
+	CalendarData,
+	EventDetails,
+	ExtractedPeriod,
+	SkippedCalendarEvent,
+	TimeSlotsFinderCalendarFormat,
+} from "../types"
 import { TimeSlotsFinderError } from "../errors"
 
-type extractFunction = (calendarData: string, timeZone: string) => DayjsPeriod[]
+type extractFunction = (
+	calendarData: CalendarData,
+	timeZone: string,
+	options?: CalendarExtractionOptions,
+) => DayjsPeriod[]
 
 const formatExtractorMap: { [key: string]: extractFunction } = {
-	[TimeSlotsFinderCalendarFormat.iCal]: extractEventsFromICal,
+	[TimeSlotsFinderCalendarFormat.iCal]: (calendarData, timeZone, options) => (
+		extractEventsFromICal(_getTextData(calendarData, "iCal"), timeZone, options)
+	),
+	[TimeSlotsFinderCalendarFormat.jCal]: extractEventsFromJCal,
+	[TimeSlotsFinderCalendarFormat.googleFreeBusy]: extractEventsFromGoogleFreeBusy,
+	[TimeSlotsFinderCalendarFormat.microsoftGraphSchedule]: extractEventsFromGraphSchedule,
+}
+
+/** A calendar parsed once, giving its events overlapping a search window (all without window). */
+export type ParsedCalendar = (searchWindow?: DayjsPeriod) => DayjsPeriod[]
+
+type parseFunction = (
+	calendarData: CalendarData,
+	timeZone: string,
+	options: Omit<CalendarExtractionOptions, "searchWindow">,
+) => ParsedCalendar
+
+const formatParserMap: { [key: string]: parseFunction } = {
+	[TimeSlotsFinderCalendarFormat.iCal]: (calendarData, timeZone, options) => (
+		parseICalCalendar(_getTextData(calendarData, "iCal"), timeZone, options)
+	),
+	[TimeSlotsFinderCalendarFormat.jCal]: parseJCalCalendar,
+	[TimeSlotsFinderCalendarFormat.googleFreeBusy]: _parseWholeCalendar(
+		extractEventsFromGoogleFreeBusy,
+	),
+	[TimeSlotsFinderCalendarFormat.microsoftGraphSchedule]: _parseWholeCalendar(
+		extractEventsFromGraphSchedule,
+	),
+}
+
+const customExtractorMap: { [key: string]: CalendarExtractor } = {}
+
+/**
+ * Register an extractor for a custom calendar format. Once registered, the format can be used as
+ * any built-in one when searching time slots.
+ * @throws {TimeSlotsFinderError} If the format is invalid or already registered.
+ * @param {string} format The name of the format.
+ * @param {CalendarExtractor} extractor The function extracting unavailable periods.
+ */
+export function registerCalendarExtractor(format: string, extractor: CalendarExtractor): void {
+	if (typeof format !== "string" || !format.trim()) {
+		throw new TimeSlotsFinderError(`Invalid calendar format: ${format}`)
+	}
+	if (typeof extractor !== "function") {
+		throw new TimeSlotsFinderError(`Invalid extractor for calendar format: ${format}`)
+	}
+	if (_isFormatOf(formatExtractorMap, format) || _isFormatOf(customExtractorMap, format)) {
+		throw new TimeSlotsFinderError(`Calendar format already registered: ${format}`)
+	}
+	customExtractorMap[format] = extractor
+}
+
+/**
+ * Unregister the extractor of a custom calendar format. Built-in formats cannot be unregistered.
+ * @throws {TimeSlotsFinderError} If the format is built-in or not registered.
+ * @param {string} format The name of the format.
+ */
+export function unregisterCalendarExtractor(format: string): void {
+	if (_isFormatOf(formatExtractorMap, format)) {
+		throw new TimeSlotsFinderError(`Built-in calendar format cannot be unregistered: ${format}`)
+	}
+	if (!_isFormatOf(customExtractorMap, format)) {
+		throw new TimeSlotsFinderError(`Calendar format not registered: ${format}`)
+	}
+	delete customExtractorMap[format]
 }
 
 export function extractEventsFromCalendar(
 	timeZone: string,
-	format?: TimeSlotsFinderCalendarFormat,
-	calendar?: string
+	format?: TimeSlotsFinderCalendarFormat | string,
+	calendar?: CalendarData,
+	options?: CalendarExtractionOptions,
 ): DayjsPeriod[] {
 	if (!calendar) {
 		return []
 	}
-	if (!format || !formatExtractorMap[format]) {
-		throw new TimeSlotsFinderError(`Invalid format for calendar data: ${format}`)
+	if (format && _isFormatOf(formatExtractorMap, format)) {
+		return formatExtractorMap[format](calendar, timeZone, options)
+	}
+	if (format && _isFormatOf(customExtractorMap, format)) {
+		return _extractEventsWithCustomExtractor(format, calendar, timeZone, options)
+	}
+	throw new TimeSlotsFinderError(`Invalid format for calendar data: ${format}`)
+}
+
+/**
+ * Parse a calendar once, to extract its events for several search windows (e.g. the windows of an
+ * iteration): only the recurrences of iCal and jCal events are expanded again for each window.
+ * Custom extractors are called for each window, the events they skip being reported once.
+ * @throws {TimeSlotsFinderError} If the format or the calendar data is invalid.
+ * @param {string} timeZone The time zone of the extracted events.
+ * @param {TimeSlotsFinderCalendarFormat | string} format The format of the calendar.
+ * @param {CalendarData} calendar The calendar data.
+ * @param {CalendarExtractionOptions} options The options, but the search window.
+ * @returns {ParsedCalendar}
+ */
+export function parseCalendar(
+	timeZone: string,
+	format?: TimeSlotsFinderCalendarFormat | string,
+	calendar?: CalendarData,
+	options: Omit<CalendarExtractionOptions, "searchWindow"> = {},
+): ParsedCalendar {
+	if (!calendar) {
+		return () => []
+	}
+	if (format && _isFormatOf(formatParserMap, format)) {
+		return formatParserMap[format](calendar, timeZone, options)
+	}
+	if (format && _isFormatOf(customExtractorMap, format)) {
+		return _parseWithCustomExtractor(format, calendar, timeZone, options)
+	}
+	throw new TimeSlotsFinderError(`Invalid format for calendar data: ${format}`)
+}
+
+/* Formats only giving busy periods are extracted whole once, then filtered for each window */
+function _parseWholeCalendar(extract: extractFunction): parseFunction {
+	return (calendarData, timeZone, options) => {
+		const events = extract(calendarData, timeZone, options)
+		return (searchWindow) => events.filter((event) => _isInSearchWindow(event, searchWindow))
+	}
+}
+
+/* The data of custom formats is unknown: the extractor is called again for each window */
+function _parseWithCustomExtractor(
+	format: string,
+	calendar: CalendarData,
+	timeZone: string,
+	options: Omit<CalendarExtractionOptions, "searchWindow">,
+): ParsedCalendar {
+	const { onSkippedEvent } = options
+	const reportedEvents: { [index: number]: boolean } = {}
+	const onNewSkippedEvent = onSkippedEvent && ((skippedEvent: SkippedCalendarEvent) => {
+		if (!reportedEvents[skippedEvent.index]) {
+			reportedEvents[skippedEvent.index] = true
+			onSkippedEvent(skippedEvent)
+		}
+	})
+	return (searchWindow) => _extractEventsWithCustomExtractor(format, calendar, timeZone, {
+		...options,
+		searchWindow,
+		onSkippedEvent: onNewSkippedEvent,
+	})
+}
+
+/* Formats such as "constructor" or "toString" must not match the properties of every object */
+function _isFormatOf(map: { [key: string]: unknown }, format: string): boolean {
+	return Object.prototype.hasOwnProperty.call(map, format)
+}
+
+/* Only data of JSON based formats can be provided as an already parsed object */
+function _getTextData(calendar: CalendarData, format: string): string {
+	if (typeof calendar !== "string") {
+		throw new TimeSlotsFinderError(`Calendar data must be a string for format: ${format}`)
+	}
+	return calendar
+}
+
+function _extractEventsWithCustomExtractor(
+	format: string,
+	calendar: CalendarData,
+	timeZone: string,
+	options: CalendarExtractionOptions = {},
+): DayjsPeriod[] {
+	const { searchWindow } = options
+	const periods = customExtractorMap[format](_getTextData(calendar, format), timeZone, {
+		...options,
+		searchWindow: searchWindow && {
+			startAt: searchWindow.startAt.toDate(),
+			endAt: searchWindow.endAt.toDate(),
+		},
+	})
+	if (!Array.isArray(periods)) {
+		throw new TimeSlotsFinderError(`Extractor for calendar format ${format} must return an array`)
+	}
+	return periods
+		.map((period, index) => _checkExtractedPeriod(format, period, index, timeZone))
+		.filter((period) => _isInSearchWindow(period, searchWindow))
+}
+
+/* Time zone aware comparisons being slow, timestamps are compared */
+function _isInSearchWindow(period: DayjsPeriod, searchWindow?: DayjsPeriod): boolean {
+	return !searchWindow
+		|| (
+			period.startAt.valueOf() < searchWindow.endAt.valueOf()
+			&& period.endAt.valueOf() > searchWindow.startAt.valueOf()
+		)
+}
+
+function _checkExtractedPeriod(
+	format: string,
+	period: ExtractedPeriod,
+	index: number,
+	timeZone: string,
+): DayjsPeriod {
+	const dayjsPeriod = convertExtractedPeriod(period, timeZone)
+	if (!dayjsPeriod) {
+		throw new TimeSlotsFinderError(
+			`Period nº${index + 1} extracted for calendar format ${format} is invalid`,
+		)
+	}
+	return dayjsPeriod
+}
+
+/**
+ * Convert a period given by a custom extractor or added to a search, only keeping its known
+ * properties. Returns null if the period is invalid.
+ * @param {ExtractedPeriod} period The period, with its dates, seats and details.
+ * @param {string} timeZone The time zone of the search.
+ * @returns {DayjsPeriod | null}
+ */
+export function convertExtractedPeriod(
+	period: ExtractedPeriod,
+	timeZone: string,
+): DayjsPeriod | null {
+	const { startAt, endAt, seats } = period ?? {}
+	if (
+		!(startAt instanceof Date) || Number.isNaN(startAt.getTime())
+		|| !(endAt instanceof Date) || Number.isNaN(endAt.getTime())
+		|| endAt.getTime() < startAt.getTime()
+		|| (seats != null && (!Number.isInteger(seats) || seats < 0))
+		|| !_areEventDetailsValid(period)
+	) {
+		return null
 	}
-	return formatExtractorMap[format](calendar, timeZone)
+	const dayjsPeriod = { startAt: dayjs(startAt).tz(timeZone), endAt: dayjs(endAt).tz(timeZone) }
+	/* Only keep the known properties of the period */
+	const properties = ["seats", "eventId", "summary", "location", "categories"]
+	return properties.reduce((checkedPeriod, key) => (
+		period[key as keyof ExtractedPeriod] == null
+			? checkedPeriod
+			: { ...checkedPeriod, [key]: period[key as keyof ExtractedPeriod] }
+	), dayjsPeriod)
+}
+
+/**
+ * Convert an event to a period with dates, as given by custom extractors, e.g. to report it.
+ * @param {DayjsPeriod} event The event, possibly with its seats and details.
+ * @returns {ExtractedPeriod}
+ */
+export function toExtractedPeriod({ startAt, endAt, ...details }: DayjsPeriod): ExtractedPeriod {
+	return { ...details, startAt: startAt.toDate(), endAt: endAt.toDate() }
+}
+
+function _areEventDetailsValid(details: EventDetails): boolean {
+	const { eventId, summary, location, categories } = details
+	return (eventId == null || typeof eventId === "string")
+		&& (summary == null || typeof summary === "string")
+		&& (location == null || typeof location === "string")
+		&& (categories == null || _isStringList(categories))
+}
+
+function _isStringList(values: unknown): boolean {
+	return Array.isArray(values) && values.every((value) => typeof value === "string")
 }
@@ -0,0 +1,83 @@
+import dayjs from "dayjs"
+import {
+	CalendarData,
+	CalendarExtractionOptions,
+	DayjsPeriod,
+	EventAvailability,
+	GoogleFreeBusyResponse,
+} from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { AvailabilityPeriod, getBlockingPeriods } from "./event-availability"
+import { parseJSONCalendarData } from "./json-data"
+
+/** RFC 3339 date-times, as returned by the Google Calendar API. */
+const RFC3339_DATE_TIME_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i
+
+/**
+ * Extract the busy periods of a response of the Google Calendar API `freeBusy.query` method. The
+ * busy periods of all the calendars of the response are extracted.
+ * @throws {TimeSlotsFinderError} If the response is invalid or reports an error for a calendar.
+ * @param {CalendarData} calendarData The response, either as a JSON string or parsed.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options
+ * @returns {DayjsPeriod[]}
+ */
+export function extractEventsFromGoogleFreeBusy(
+	calendarData: CalendarData,
+	preferredTimeZone: string,
+	options: CalendarExtractionOptions = {},
+): DayjsPeriod[] {
+	const response = parseJSONCalendarData(calendarData, "Google freeBusy")
+	if (!_isGoogleFreeBusyResponse(response)) {
+		throw new TimeSlotsFinderError("Invalid Google freeBusy calendar data: calendars expected")
+	}
+	const periods: AvailabilityPeriod[] = []
+	/* Busy periods are numbered across all the calendars of the response */
+	let index = 0
+	Object.keys(response.calendars).forEach((calendarId) => {
+		const { busy = [], errors = [] } = response.calendars[calendarId]
+		/* Ignoring a calendar in error would make its busy time available */
+		if (errors.length) {
+			throw new TimeSlotsFinderError(
+				`Google freeBusy error for calendar ${calendarId}: ${errors[0].reason}`,
+			)
+		}
+		busy.forEach((period) => {
+			try {
+				periods.push(_parseGoogleBusyPeriod(period))
+			} catch (error) {
+				options.onSkippedEvent?.({ index, reason: (error as Error).message })
+			}
+			index += 1
+		})
+	})
+	return getBlockingPeriods(periods, preferredTimeZone, options)
+}
+
+function _isGoogleFreeBusyResponse(value: unknown): value is GoogleFreeBusyResponse {
+	const { calendars } = (value ?? {}) as { calendars?: unknown }
+	return typeof calendars === "object" && calendars != null && !Array.isArray(calendars)
+}
+
+function _parseGoogleBusyPeriod(period: { start: string, end: string }): AvailabilityPeriod {
+	const { start, end } = period ?? {}
+	if (!_isRFC3339DateTime(start) || !_isRFC3339DateTime(end)) {
+		throw new TimeSlotsFinderError(`Invalid busy period: ${start}/${end}`)
+	}
+	const startAt = dayjs(start)
+	const endAt = dayjs(end)
+	if (endAt.valueOf() < startAt.valueOf()) {
+		throw new TimeSlotsFinderError("End date is before start date")
+	}
+	/* The freeBusy method only returns the time the calendars are busy */
+	return { startAt, endAt, availability: EventAvailability.busy }
+}
+
+/* The local date and time must exist: dates such as February 30th would be moved to March */
+function _isRFC3339DateTime(value: string): boolean {
+	if (typeof value !== "string" || !RFC3339_DATE_TIME_REGEX.test(value)) {
+		return false
+	}
+	const localDateTime = value.slice(0, 19).toUpperCase()
+	return dayjs.utc(localDateTime).format("YYYY-MM-DDTHH:mm:ss") === localDateTime
+}
@@ -0,0 +1,198 @@
+import dayjs, { Dayjs } from "dayjs"
+import { TimeSlotsFinderError } from "../errors"
+import { fromLocalTime, ICalTimeZone, toLocalTime } from "./ical-time-zones"
+import { getInvalidRecurrenceField, RecurrenceRule } from "../recurrence"
+import { RecurrenceFrequency, RecurrenceWeekDay } from "../types"
+
+const ICAL_DATE_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z|[+-]\d{2}:?\d{2})?)?$/
+const ICAL_WEEKDAYS = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"]
+const ICAL_DURATION_REGEX = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+
+export interface ICalDate {
+	/** The moment described by the value. */
+	moment: Dayjs
+	/** Whether the value is a date without time, i.e. the start of a whole day. */
+	isAllDay: boolean
+	/** The time zone the local time of the value is expressed in. */
+	timeZone: ICalTimeZone
+}
+
+export interface ICalDuration {
+	/** The nominal days (and weeks) of the duration, following local time. */
+	days: number
+	/** The exact time part of the duration. */
+	milliseconds: number
+}
+
+/**
+ * Parse an iCal DATE or DATE-TIME value (RFC 5545, sections 3.3.4 and 3.3.5). UTC values end with
+ * a `Z`, values with a local time are expressed in the provided time zone (which is either the one
+ * referenced by the TZID parameter, or the one of the calendar for floating times) and dates are
+ * whole days in the time zone provided for them. A non-standard UTC offset suffix is accepted.
+ * @throws {TimeSlotsFinderError} If the value is invalid.
+ * @param {string} value The value to parse.
+ * @param {ICalTimeZone} timeZone The time zone of local date-times.
+ * @param {ICalTimeZone} allDayTimeZone The time zone of dates.
+ * @returns {ICalDate}
+ */
+export function parseICalDate(
+	value: string,
+	timeZone: ICalTimeZone,
+	allDayTimeZone: ICalTimeZone,
+): ICalDate {
+	const match = (value ?? "").trim().match(ICAL_DATE_REGEX)
+	if (!match || !_isValidLocalTime(match.slice(1, 7).map((part) => Number(part ?? 0)))) {
+		throw new TimeSlotsFinderError(`Invalid iCal date: ${value}`)
+	}
+	const [, year, month, day, hour = "00", minute = "00", second = "00", suffix] = match
+	const localTime = `${year}-${month}-${day}T${hour}:${minute}:${second}`
+	if (match[4] == null) {
+		return {
+			moment: _fromLocalTimeString(localTime, allDayTimeZone),
+			isAllDay: true,
+			timeZone: allDayTimeZone,
+		}
+	}
+	if (!suffix) {
+		return { moment: _fromLocalTimeString(localTime, timeZone), isAllDay: false, timeZone }
+	}
+	/* Values with an absolute time repeat in UTC time */
+	const offset = suffix === "Z" ? 0 : parseICalUTCOffset(suffix)
+	return {
+		moment: dayjs.utc(localTime)
+			.subtract(offset, "minute")
+			.utcOffset(offset),
+		isAllDay: false,
+		timeZone: "UTC",
+	}
+}
+
+/**
+ * Parse an iCal DURATION value (RFC 5545, section 3.3.6), e.g. `P1W`, `PT1H30M` or `P1DT12H`.
+ * @throws {TimeSlotsFinderError} If the value is invalid.
+ * @param {string} value The value to parse.
+ * @returns {ICalDuration}
+ */
+export function parseICalDuration(value: string): ICalDuration {
+	const match = (value ?? "").trim().match(ICAL_DURATION_REGEX)
+	if (!match || value.trim().endsWith("P") || value.trim().endsWith("T")) {
+		throw new TimeSlotsFinderError(`Invalid iCal duration: ${value}`)
+	}
+	const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? "0")
+	const factor = sign === "-" ? -1 : 1
+	return {
+		days: factor * ((Number(weeks) * 7) + Number(days)),
+		milliseconds: factor * 1000 * (
+			(Number(hours) * 3600) + (Number(minutes) * 60) + Number(seconds)
+		),
+	}
+}
+
+/**
+ * Add a duration to a moment. Days are added in local time, so that a day always ends at the same
+ * time even when daylight saving time changes.
+ * @param {Dayjs} moment The moment to add the duration to.
+ * @param {ICalDuration} duration The duration to add.
+ * @param {ICalTimeZone} timeZone The time zone of the local time.
+ * @returns {Dayjs}
+ */
+export function addICalDuration(
+	moment: Dayjs,
+	duration: ICalDuration,
+	timeZone: ICalTimeZone,
+): Dayjs {
+	const withDays = duration.days
+		? fromLocalTime(toLocalTime(moment, timeZone).add(duration.days, "day"), timeZone)
+		: moment
+	return withDays.add(duration.milliseconds, "millisecond")
+}
+
+/* Avoid parsing and formatting the local time again for IANA time zones, dates being numerous */
+function _fromLocalTimeString(localTime: string, timeZone: ICalTimeZone): Dayjs {
+	return typeof timeZone === "string"
+		? dayjs.tz(localTime, timeZone)
+		: fromLocalTime(dayjs.utc(localTime), timeZone)
+}
+
+/* Ensure that the parts of a local time don't overflow (e.g. February 30th, 25:00) */
+function _isValidLocalTime([year, month, day, hour, minute, second]: number[]): boolean {
+	const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second))
+	return date.getUTCFullYear() === year
+		&& date.getUTCMonth() === month - 1
+		&& date.getUTCDate() === day
+		&& date.getUTCHours() === hour
+		&& date.getUTCMinutes() === minute
+		&& date.getUTCSeconds() === second
+}
+
+/**
+ * Parse an iCal RECUR value (RFC 5545, section 3.3.10), e.g. `FREQ=WEEKLY;BYDAY=MO,TU`. The
+ * limit of the rule is expressed in local time, as are the occurrences of the rule.
+ * @throws {TimeSlotsFinderError} If the frequency of the rule is not supported, or a value is
+ * invalid.
+ * @param {string} value The value to parse.
+ * @param {ICalTimeZone} timeZone The time zone of the start of the recurring component.
+ * @returns {RecurrenceRule}
+ */
+export function parseICalRecurrenceRule(value: string, timeZone: ICalTimeZone): RecurrenceRule {
+	const parts = value.split(";").reduce((allParts: { [key: string]: string }, part) => {
+		const [key, partValue] = part.split("=")
+		return { ...allParts, [key.toUpperCase()]: partValue }
+	}, {})
+	if (["YEARLY", "MONTHLY", "WEEKLY", "DAILY"].indexOf(parts.FREQ) < 0) {
+		throw new TimeSlotsFinderError(`Unsupported recurrence frequency: ${parts.FREQ}`)
+	}
+	const toNumbers = (list?: string) => list?.split(",").map(_parseICalInteger)
+	const rule: RecurrenceRule = {
+		frequency: parts.FREQ as RecurrenceFrequency,
+		interval: toNumbers(parts.INTERVAL)?.[0],
+		count: toNumbers(parts.COUNT)?.[0],
+		byMonth: toNumbers(parts.BYMONTH)?.map((month) => month - 1),
+		byMonthDay: toNumbers(parts.BYMONTHDAY),
+		byWeekDay: parts.BYDAY?.split(",").map(_parseICalWeekDay),
+		bySetPosition: toNumbers(parts.BYSETPOS),
+	}
+	if (parts.UNTIL) {
+		const until = parseICalDate(parts.UNTIL, timeZone, timeZone)
+		const localUntil = toLocalTime(until.moment, timeZone)
+		/* A date only UNTIL includes the whole day */
+		rule.until = until.isAllDay ? localUntil.endOf("day") : localUntil
+	}
+	if (parts.WKST) {
+		rule.weekStart = ICAL_WEEKDAYS.indexOf(parts.WKST) + 1
+	}
+	const invalidField = getInvalidRecurrenceField(rule)
+	if (invalidField) {
+		throw new TimeSlotsFinderError(`Invalid recurrence ${invalidField}: ${value}`)
+	}
+	return rule
+}
+
+/* Unknown weekdays give 0, to be reported as invalid */
+function _parseICalWeekDay(weekDay: string): RecurrenceWeekDay {
+	const isoWeekDay = ICAL_WEEKDAYS.indexOf(weekDay.slice(-2)) + 1
+	const ordinal = weekDay.slice(0, -2)
+	return ordinal ? { isoWeekDay, ordinal: _parseICalInteger(ordinal) } : { isoWeekDay }
+}
+
+/* Values which aren't integers give NaN, to be reported as invalid */
+function _parseICalInteger(value: string): number {
+	return (/^[+-]?\d+$/).test(value) ? parseInt(value, 10) : NaN
+}
+
+/**
+ * Parse an iCal UTC-OFFSET value (RFC 5545, section 3.3.14), e.g. `+0100` or `-0530`. A colon
+ * between hours and minutes is accepted.
+ * @throws {TimeSlotsFinderError} If the value is invalid.
+ * @param {string} value The value to parse.
+ * @returns {number} The offset in minutes.
+ */
+export function parseICalUTCOffset(value: string): number {
+	const match = (value ?? "").trim().match(/^([+-])(\d{2}):?(\d{2})(\d{2})?$/)
+	if (!match) {
+		throw new TimeSlotsFinderError(`Invalid iCal UTC offset: ${value}`)
+	}
+	const [, sign, hours, minutes, seconds = "0"] = match
+	const offset = (Number(hours) * 60) + Number(minutes) + (Number(seconds) / 60)
+	return sign === "-" ? -offset : offset
+}
@@ -0,0 +1,64 @@
+import { JSONCal } from "ical2json"
+import { CalendarExtractionOptions, EventAvailability } from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { AvailabilityPeriod } from "./event-availability"
+import { getICalProperties, ICalProperty } from "./ical-properties"
+import { addICalDuration, parseICalDate, parseICalDuration } from "./ical-dates"
+
+/** The availabilities matching the free/busy time types (RFC 5545, section 3.2.9). */
+const ICAL_FREE_BUSY_TYPES: { [type: string]: EventAvailability } = {
+	"FREE": EventAvailability.free,
+	"BUSY": EventAvailability.busy,
+	"BUSY-UNAVAILABLE": EventAvailability.busy,
+	"BUSY-TENTATIVE": EventAvailability.tentative,
+}
+
+/**
+ * Parse the FREEBUSY properties of VFREEBUSY components, as returned by CalDAV free/busy queries.
+ * Invalid periods are reported and skipped, the components being numbered from `firstIndex`.
+ * @param {JSONCal[]} vFreeBusies The VFREEBUSY components.
+ * @param {number} firstIndex The position of the first component in the calendar.
+ * @param {CalendarExtractionOptions} options
+ * @returns {AvailabilityPeriod[]}
+ */
+export function parseICalFreeBusyPeriods(
+	vFreeBusies: JSONCal[],
+	firstIndex: number,
+	options: CalendarExtractionOptions = {},
+): AvailabilityPeriod[] {
+	const periods: AvailabilityPeriod[] = []
+	vFreeBusies.forEach((vFreeBusy, position) => {
+		getICalProperties(vFreeBusy, "FREEBUSY").forEach((property) => {
+			property.value.split(",").forEach((value) => {
+				try {
+					periods.push(_parseICalFreeBusyPeriod(property, value))
+				} catch (error) {
+					options.onSkippedEvent?.({
+						index: firstIndex + position,
+						eventId: getICalProperties(vFreeBusy, "UID")[0]?.value,
+						reason: (error as Error).message,
+					})
+				}
+			})
+		})
+	})
+	return periods
+}
+
+/* Parse a period whose end is either a date or a duration; free/busy times are always UTC ones */
+function _parseICalFreeBusyPeriod(property: ICalProperty, value: string): AvailabilityPeriod {
+	const [start, end] = value.split("/")
+	if (!end) {
+		throw new TimeSlotsFinderError(`Invalid iCal period: ${value}`)
+	}
+	const startAt = parseICalDate(start, "UTC", "UTC").moment
+	const endAt = end.indexOf("P") >= 0
+		? addICalDuration(startAt, parseICalDuration(end), "UTC")
+		: parseICalDate(end, "UTC", "UTC").moment
+	if (endAt.valueOf() < startAt.valueOf()) {
+		throw new TimeSlotsFinderError("End date is before start date")
+	}
+	const type = (property.params.FBTYPE ?? "BUSY").toUpperCase()
+	/* Unknown types must be considered busy */
+	return { startAt, endAt, availability: ICAL_FREE_BUSY_TYPES[type] ?? EventAvailability.busy }
+}
@@ -0,0 +1,127 @@
+import { JSONCal } from "ical2json"
+import { EventAvailability, EventBlockingPolicy, EventDetails } from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { isOwnerAddress } from "./event-availability"
+
+export interface ICalProperty {
+	name: string
+	params: { [key: string]: string }
+	value: string
+}
+
+/**
+ * Retrieve all the properties of a component with the given name, whatever their parameters.
+ * @param {JSONCal} component The component the properties belong to.
+ * @param {string} name The name of the properties, e.g. `DTSTART`.
+ * @returns {ICalProperty[]}
+ */
+export function getICalProperties(component: JSONCal, name: string): ICalProperty[] {
+	return Object.keys(component)
+		.filter((key) => key === name || key.startsWith(`${name};`))
+		.reduce((properties: ICalProperty[], key) => {
+			const params = _parseICalParameters(key)
+			const values = ([] as unknown[]).concat(component[key])
+				.filter((value) => typeof value === "string") as string[]
+			return properties.concat(values.map((value) => ({ name, params, value })))
+		}, [])
+}
+
+/**
+ * Classify an event using its STATUS and TRANSP properties, and the participation status of the
+ * calendar owner when the owner is one of its attendees.
+ * @param {JSONCal} vEvent The VEVENT component.
+ * @param {EventBlockingPolicy} policy The policy giving the addresses of the calendar owner.
+ * @returns {EventAvailability}
+ */
+export function classifyICalEvent(
+	vEvent: JSONCal,
+	policy?: EventBlockingPolicy,
+): EventAvailability {
+	const [statusProperty] = getICalProperties(vEvent, "STATUS")
+	const [transparencyProperty] = getICalProperties(vEvent, "TRANSP")
+	const ownerAttendee = getICalProperties(vEvent, "ATTENDEE")
+		.find((attendee) => isOwnerAddress(attendee.value, policy))
+	const status = statusProperty?.value.toUpperCase()
+	const participationStatus = ownerAttendee?.params.PARTSTAT?.toUpperCase()
+
+	if (status === "CANCELLED") {
+		return EventAvailability.cancelled
+	}
+	if (participationStatus === "DECLINED") {
+		return EventAvailability.declined
+	}
+	if (transparencyProperty?.value.toUpperCase() === "TRANSPARENT") {
+		return EventAvailability.free
+	}
+	if (
+		status === "TENTATIVE"
+		|| participationStatus === "TENTATIVE"
+		|| participationStatus === "NEEDS-ACTION"
+	) {
+		return EventAvailability.tentative
+	}
+	return EventAvailability.busy
+}
+
+/**
+ * Read the number of seats an event takes in slots having a capacity, one by default.
+ * @throws {TimeSlotsFinderError} If the number of seats is invalid.
+ * @param {JSONCal} vEvent The VEVENT component.
+ * @param {string} seatsProperty The name of the property giving the number of seats.
+ * @returns {number}
+ */
+export function parseICalSeats(vEvent: JSONCal, seatsProperty: string): number {
+	const [property] = getICalProperties(vEvent, seatsProperty.toUpperCase())
+	if (!property) {
+		return 1
+	}
+	if (!(/^\d+$/).test(property.value.trim())) {
+		throw new TimeSlotsFinderError(`Invalid number of seats: ${property.value}`)
+	}
+	return parseInt(property.value, 10)
+}
+
+/**
+ * Read the identifier, summary, location and categories of an event.
+ * @param {JSONCal} vEvent The VEVENT component.
+ * @returns {EventDetails}
+ */
+export function parseICalEventDetails(vEvent: JSONCal): EventDetails {
+	const [uidProperty] = getICalProperties(vEvent, "UID")
+	const [summaryProperty] = getICalProperties(vEvent, "SUMMARY")
+	const [locationProperty] = getICalProperties(vEvent, "LOCATION")
+	const categories = getICalProperties(vEvent, "CATEGORIES")
+		.reduce((values: string[], property) => values.concat(_splitICalText(property.value)), [])
+	return {
+		eventId: uidProperty?.value,
+		summary: summaryProperty && _unescapeICalText(summaryProperty.value),
+		location: locationProperty && _unescapeICalText(locationProperty.value),
+		categories,
+	}
+}
+
+/* Split a list of text values on the commas which are not escaped */
+function _splitICalText(value: string): string[] {
+	return (value.match(/(?:\\.|[^,])+/g) ?? []).map(_unescapeICalText)
+}
+
+/* Unescape a text value (RFC 5545, section 3.3.11) */
+function _unescapeICalText(value: string): string {
+	return value.replace(/\\([\\;,nN])/g, (_, character: string) => (
+		character.toLowerCase() === "n" ? "\n" : character
+	))
+}
+
+/* Parse the parameters of a property key, e.g. `DTSTART;TZID=Europe/Paris` */
+function _parseICalParameters(key: string): { [key: string]: string } {
+	const params: { [key: string]: string } = {}
+	key.split(";").forEach((param, i) => {
+		const separatorIndex = param.indexOf("=")
+		if (i > 0 && separatorIndex > 0) {
+			params[param.slice(0, separatorIndex).toUpperCase()] = param
+				.slice(separatorIndex + 1)
+				.replace(/^"(.*)"$/, "$1")
+		}
+	})
+	return params
+}
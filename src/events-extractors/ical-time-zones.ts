@@ -0,0 +1,129 @@
+import dayjs, { Dayjs } from "dayjs"
+import { TimeSlotsFinderError } from "../errors"
+import { expandRecurrenceRule, RecurrenceRule } from "../recurrence"
+import { WINDOWS_TIME_ZONES } from "./windows-time-zones"
+
+const LOCAL_TIME_FORMAT = "YYYY-MM-DDTHH:mm:ss"
+
+/** Whether time zone names are known by the runtime, checking a name being expensive. */
+const ianaTimeZoneNames: { [name: string]: boolean } = {}
+
+export interface ICalTimeZoneObservance {
+	/** The local time (as a UTC Dayjs object) the observance starts at. */
+	startAt: Dayjs
+	/** The UTC offset in minutes before the observance starts. */
+	offsetFrom: number
+	/** The UTC offset in minutes while the observance is in use. */
+	offsetTo: number
+	/** The rule giving the following local start times of the observance. */
+	recurrenceRule?: RecurrenceRule
+	/** The other local start times of the observance. */
+	recurrenceDates: Dayjs[]
+}
+
+/** A time zone defined by a VTIMEZONE component (RFC 5545, section 3.6.5). */
+export interface ICalTimeZoneDefinition {
+	tzid: string
+	/** The STANDARD and DAYLIGHT sub-components of the time zone. */
+	observances: ICalTimeZoneObservance[]
+}
+
+/** Either the name of an IANA time zone, or a time zone defined by the calendar. */
+export type ICalTimeZone = string | ICalTimeZoneDefinition
+
+/**
+ * Find the time zone matching a TZID. IANA time zone names are used as is, Windows time zone
+ * names are mapped to IANA ones, and other TZIDs must be defined by a VTIMEZONE component.
+ * @throws {TimeSlotsFinderError} If the time zone is unknown.
+ * @param {string} tzid The TZID to resolve.
+ * @param {Object} definitions The time zones defined by the calendar, by TZID.
+ * @returns {ICalTimeZone}
+ */
+export function resolveICalTimeZone(
+	tzid: string,
+	definitions: { [tzid: string]: ICalTimeZoneDefinition },
+): ICalTimeZone {
+	if (_isIANATimeZone(tzid)) {
+		return tzid
+	}
+	if (WINDOWS_TIME_ZONES[tzid]) {
+		return WINDOWS_TIME_ZONES[tzid]
+	}
+	if (definitions[tzid]) {
+		return definitions[tzid]
+	}
+	throw new TimeSlotsFinderError(`Unknown time zone: ${tzid}`)
+}
+
+/**
+ * Get the local "wall clock" time of a moment in a time zone, as a UTC Dayjs object.
+ * @param {Dayjs} moment The moment to convert.
+ * @param {ICalTimeZone} timeZone The time zone of the local time.
+ * @returns {Dayjs}
+ */
+export function toLocalTime(moment: Dayjs, timeZone: ICalTimeZone): Dayjs {
+	if (typeof timeZone === "string") {
+		return dayjs.utc(moment.tz(timeZone).format(LOCAL_TIME_FORMAT))
+	}
+	return dayjs.utc(moment.valueOf()).add(_getOffset(timeZone, moment.valueOf()), "minute")
+}
+
+/**
+ * Get the moment matching a local "wall clock" time (as a UTC Dayjs object) in a time zone.
+ * @param {Dayjs} localMoment The local time to convert.
+ * @param {ICalTimeZone} timeZone The time zone of the local time.
+ * @returns {Dayjs}
+ */
+export function fromLocalTime(localMoment: Dayjs, timeZone: ICalTimeZone): Dayjs {
+	if (typeof timeZone === "string") {
+		return dayjs.tz(localMoment.format(LOCAL_TIME_FORMAT), timeZone)
+	}
+	/* The offset depends on the moment we are looking for: guess it from the local time first */
+	const guessedOffset = _getOffset(timeZone, localMoment.valueOf())
+	const offset = _getOffset(timeZone, localMoment.valueOf() - (guessedOffset * 60000))
+	return localMoment.subtract(offset, "minute").utcOffset(offset)
+}
+
+function _isIANATimeZone(name: string): boolean {
+	if (ianaTimeZoneNames[name] == null) {
+		try {
+			const format = new Intl.DateTimeFormat("en-US", { timeZone: name })
+			ianaTimeZoneNames[name] = Boolean(format.resolvedOptions().timeZone)
+		} catch (_) {
+			ianaTimeZoneNames[name] = false
+		}
+	}
+	return ianaTimeZoneNames[name]
+}
+
+/* Return the UTC offset (in minutes) of the observance in use at a timestamp */
+function _getOffset(definition: ICalTimeZoneDefinition, timestamp: number): number {
+	let latestOnset = -Infinity
+	let offset = definition.observances[0]?.offsetFrom ?? 0
+	definition.observances.forEach((observance) => {
+		_getObservanceOnsets(observance, timestamp).forEach((localOnset) => {
+			const onset = localOnset.valueOf() - (observance.offsetFrom * 60000)
+			if (onset <= timestamp && onset > latestOnset) {
+				latestOnset = onset
+				offset = observance.offsetTo
+			}
+		})
+	})
+	return offset
+}
+
+/* Return the local start times of an observance, including the latest one before a timestamp */
+function _getObservanceOnsets(observance: ICalTimeZoneObservance, timestamp: number): Dayjs[] {
+	const { recurrenceRule: rule, startAt, recurrenceDates } = observance
+	if (!rule) {
+		return [startAt, ...recurrenceDates]
+	}
+	const localMoment = dayjs.utc(timestamp).add(observance.offsetFrom, "minute")
+	const limit = rule.until && rule.until.isBefore(localMoment) ? rule.until : localMoment
+	/* Observances repeat at least once a year */
+	const window = {
+		startAt: limit.subtract(1, "year").subtract(1, "day"),
+		endAt: localMoment.add(1, "day"),
+	}
+	return [startAt, ...recurrenceDates, ...expandRecurrenceRule(rule, startAt, window)]
+}
@@ -1,44 +1,396 @@
 import ICal2JSON, { JSONCal } from "ical2json"
 import dayjs, { Dayjs } from "dayjs"
-import { DayjsPeriod } from "../types"
+import {
+	CalendarExtractionOptions,
+	DayjsPeriod,
+	EventAvailability,
+	EventBlockingPolicy,
+	EventDetails,
+} from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { getBlockingPeriods, isEventBlockingTime } from "./event-availability"
+import { expandRecurrenceRule, RecurrenceRule } from "../recurrence"
+import {
+	classifyICalEvent,
+	getICalProperties,
+	ICalProperty,
+	parseICalEventDetails,
+	parseICalSeats,
+} from "./ical-properties"
+import { parseICalFreeBusyPeriods } from "./ical-free-busy"
+import {
+	addICalDuration,
+	ICalDate,
+	parseICalDate,
+	parseICalDuration,
+	parseICalRecurrenceRule,
+	parseICalUTCOffset,
+} from "./ical-dates"
+import {
+	fromLocalTime,
+	ICalTimeZone,
+	ICalTimeZoneDefinition,
+	ICalTimeZoneObservance,
+	resolveICalTimeZone,
+	toLocalTime,
+} from "./ical-time-zones"
+
+interface ICalTimeZones {
+	/** The TZID of local times without TZID parameter. */
+	floating: string
+	/** The time zone whole days are expressed in. */
+	allDay: string
+	/** The time zones defined by the calendar, by TZID. */
+	definitions: { [tzid: string]: ICalTimeZoneDefinition }
+}
+
+interface ICalEvent extends DayjsPeriod {
+	uid?: string
+	availability: EventAvailability
+	/** The time zone used to compute recurrences. */
+	timeZone: ICalTimeZone
+	recurrenceRule?: RecurrenceRule
+	recurrenceDates: DayjsPeriod[]
+	exceptionDates: Dayjs[]
+	recurrenceId?: Dayjs
+	seats?: number
+	details?: EventDetails
+}
+
+type ICalRecurrence = Omit<
+	ICalEvent,
+	"uid" | "availability" | "startAt" | "endAt" | "seats" | "details"
+>
+
+interface ICalDateListItem {
+	startAt: Dayjs
+	/** Only defined for items of the PERIOD type. */
+	endAt?: Dayjs
+}
 
 export function extractEventsFromICal(
 	calendarData: string,
-	preferredTimeZone: string
+	preferredTimeZone: string,
+	options: CalendarExtractionOptions = {},
 ): DayjsPeriod[] {
+	return parseICalCalendar(calendarData, preferredTimeZone, options)(options.searchWindow)
+}
+
+/**
+ * Parse an iCal calendar once, giving a function extracting its events overlapping a search
+ * window: only the recurrences are expanded again for each window. Events that cannot be used are
+ * reported while parsing.
+ * @param {string} calendarData The calendar.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options The options, but the search window.
+ * @returns {Function}
+ */
+export function parseICalCalendar(
+	calendarData: string,
+	preferredTimeZone: string,
+	options: Omit<CalendarExtractionOptions, "searchWindow"> = {},
+): (searchWindow?: DayjsPeriod) => DayjsPeriod[] {
 	const iCalendarJSONData = ICal2JSON.convert(calendarData)
 
 	const vCalendar = (iCalendarJSONData.VCALENDAR as JSONCal)[0] as JSONCal
-	const calendarTimeZone = vCalendar["X-WR-TIMEZONE"] as string
+	return parseVCalendar(vCalendar, preferredTimeZone, options)
+}
+
+/**
+ * Parse the events (VEVENT) and free/busy times (VFREEBUSY) of a VCALENDAR component, as
+ * converted by `ical2json`: each property is stored with its parameters in its key (e.g.
+ * `DTSTART;TZID=Europe/Paris`) and its value(s) in the iCal format, and sub-components are stored
+ * in arrays (e.g. `VEVENT`). Gives a function extracting the events overlapping a search window.
+ * @param {JSONCal} vCalendar The VCALENDAR component.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options The options, but the search window.
+ * @returns {Function}
+ */
+export function parseVCalendar(
+	vCalendar: JSONCal,
+	preferredTimeZone: string,
+	options: Omit<CalendarExtractionOptions, "searchWindow"> = {},
+): (searchWindow?: DayjsPeriod) => DayjsPeriod[] {
+	const timeZones = {
+		floating: vCalendar["X-WR-TIMEZONE"] as string || preferredTimeZone,
+		allDay: preferredTimeZone,
+		definitions: _parseICalTimeZones(vCalendar),
+	}
 	const vEvents = vCalendar.VEVENT as JSONCal[] ?? []
-	return vEvents
-		.map((vEvent) => {
-			const keys = Object.keys(vEvent)
-			const startDateKey = keys.find((key) => key.startsWith("DTSTART"))
-			if (!startDateKey) {
-				return null
-			}
-			const eventTimeZone = startDateKey?.match(/^DTSTART;TZID=(.*)$/)?.[1]
-			const endDateKey = eventTimeZone ? `DTEND;TZID=${eventTimeZone}` : `DTEND`
-			const parsedTimeZone = eventTimeZone || calendarTimeZone
-			try {
-				const startDate = _parseICalDate(vEvent[startDateKey] as string, parsedTimeZone)
-				const endDate = _parseICalDate(vEvent[endDateKey] as string, parsedTimeZone)
-				return {
-					startAt: startDate.tz(preferredTimeZone),
-					endAt: endDate.tz(preferredTimeZone),
-				}
-			} catch (_) {
-				return null
+	const vFreeBusies = vCalendar.VFREEBUSY as JSONCal[] ?? []
+	const policy = options.eventBlockingPolicy
+	const events = _parseICalEvents(vEvents, timeZones, options)
+
+	const overriddenInstances = _getOverriddenInstances(events)
+	const blockingEvents = events
+		.filter((event) => isEventBlockingTime(event.availability, policy))
+	/* Free/busy components follow the events in the calendar */
+	const freeBusyPeriods = parseICalFreeBusyPeriods(vFreeBusies, vEvents.length, options)
+	return (searchWindow) => _getOccurrences(blockingEvents, overriddenInstances, searchWindow)
+		.map((period) => ({
+			...period,
+			startAt: period.startAt.tz(preferredTimeZone),
+			endAt: period.endAt.tz(preferredTimeZone),
+		}))
+		.concat(getBlockingPeriods(
+			freeBusyPeriods,
+			preferredTimeZone,
+			{ ...options, searchWindow },
+		))
+}
+
+/*
+ * Parse the time zones defined by VTIMEZONE components. Invalid definitions are ignored: the events
+ * using them are skipped as their time zone is unknown.
+ */
+function _parseICalTimeZones(vCalendar: JSONCal): { [tzid: string]: ICalTimeZoneDefinition } {
+	const definitions: { [tzid: string]: ICalTimeZoneDefinition } = {}
+	const vTimeZones = vCalendar.VTIMEZONE as JSONCal[] ?? []
+	vTimeZones.forEach((vTimeZone) => {
+		const [tzidProperty] = getICalProperties(vTimeZone, "TZID")
+		const vObservances = ([] as JSONCal[])
+			.concat(vTimeZone.STANDARD as JSONCal[] ?? [], vTimeZone.DAYLIGHT as JSONCal[] ?? [])
+		try {
+			definitions[tzidProperty.value] = {
+				tzid: tzidProperty.value,
+				observances: vObservances.map(_parseICalTimeZoneObservance),
 			}
-		})
-		.filter((event) => event) as DayjsPeriod[]
+		} catch (_) {
+			/* Ignore the definition */
+		}
+	})
+	return definitions
+}
+
+/* Parse a STANDARD or DAYLIGHT component, whose dates are local times */
+function _parseICalTimeZoneObservance(vObservance: JSONCal): ICalTimeZoneObservance {
+	const [startProperty] = getICalProperties(vObservance, "DTSTART")
+	const [rRuleProperty] = getICalProperties(vObservance, "RRULE")
+	const [offsetFromProperty] = getICalProperties(vObservance, "TZOFFSETFROM")
+	const [offsetToProperty] = getICalProperties(vObservance, "TZOFFSETTO")
+	const offsetFrom = parseICalUTCOffset(offsetFromProperty?.value)
+	const recurrenceRule = rRuleProperty && parseICalRecurrenceRule(rRuleProperty.value, "UTC")
+	if (recurrenceRule?.until) {
+		/* The UNTIL value is in UTC time */
+		recurrenceRule.until = recurrenceRule.until.add(offsetFrom, "minute")
+	}
+	return {
+		startAt: parseICalDate(startProperty?.value, "UTC", "UTC").moment,
+		offsetFrom,
+		offsetTo: parseICalUTCOffset(offsetToProperty?.value),
+		recurrenceRule,
+		recurrenceDates: getICalProperties(vObservance, "RDATE")
+			.reduce((dates: string[], property) => dates.concat(property.value.split(",")), [])
+			.map((date) => parseICalDate(date, "UTC", "UTC").moment),
+	}
+}
+
+/* Parse the events, reporting the ones that cannot be used instead of failing */
+function _parseICalEvents(
+	vEvents: JSONCal[],
+	timeZones: ICalTimeZones,
+	options: CalendarExtractionOptions,
+): ICalEvent[] {
+	const events: ICalEvent[] = []
+	vEvents.forEach((vEvent, index) => {
+		try {
+			const { seatsProperty, eventDetails } = options
+			events.push({
+				..._parseICalEvent(vEvent, timeZones, options.eventBlockingPolicy),
+				...(seatsProperty ? { seats: parseICalSeats(vEvent, seatsProperty) } : {}),
+				...(eventDetails ? { details: parseICalEventDetails(vEvent) } : {}),
+			})
+		} catch (error) {
+			options.onSkippedEvent?.({
+				index,
+				eventId: getICalProperties(vEvent, "UID")[0]?.value,
+				reason: (error as Error).message,
+			})
+		}
+	})
+	return events
+}
+
+/*
+ * List the instances of recurring events overridden by another VEVENT sharing their UID. The
+ * overriding event may not block time itself (e.g. a cancelled instance).
+ */
+function _getOverriddenInstances(events: ICalEvent[]): { [uid: string]: number[] } {
+	const overriddenInstances: { [uid: string]: number[] } = {}
+	events.forEach((event) => {
+		if (event.uid && event.recurrenceId) {
+			overriddenInstances[event.uid] = (overriddenInstances[event.uid] ?? [])
+				.concat(event.recurrenceId.valueOf())
+		}
+	})
+	return overriddenInstances
 }
 
-function _parseICalDate(dateString: string, timeZone: string): Dayjs {
-	if (dateString.length > 15) {
-		const offset = parseInt(dateString.slice(15).replace(":", "."), 10)
-		return dayjs(dateString.slice(0, 15)).utcOffset(Number.isNaN(offset) ? 0 : offset, true)
+/* Parse an event, throwing an error explaining why when it cannot be used */
+function _parseICalEvent(
+	vEvent: JSONCal,
+	calendarTimeZones: ICalTimeZones,
+	policy?: EventBlockingPolicy,
+): ICalEvent {
+	const [startProperty] = getICalProperties(vEvent, "DTSTART")
+	if (!startProperty) {
+		throw new TimeSlotsFinderError("Missing start date (DTSTART)")
 	}
-	return dayjs.tz(dateString, timeZone)
+	/* Other dates of the event default to the time zone of its start */
+	const timeZones = {
+		...calendarTimeZones,
+		floating: startProperty.params.TZID || calendarTimeZones.floating,
+	}
+	const start = _parseICalDate(startProperty, timeZones)
+	const endAt = _getICalEventEnd(vEvent, start, timeZones)
+	/* Timestamps are compared directly, time zone aware comparisons being slow */
+	if (endAt.valueOf() < start.moment.valueOf()) {
+		throw new TimeSlotsFinderError("End date is before start date")
+	}
+	const [uidProperty] = getICalProperties(vEvent, "UID")
+	const event = { startAt: start.moment, endAt }
+	return {
+		uid: uidProperty?.value,
+		availability: classifyICalEvent(vEvent, policy),
+		...event,
+		..._parseICalRecurrence(vEvent, event, start.timeZone, timeZones),
+	}
+}
+
+/*
+ * Compute the end of an event (RFC 5545, section 3.6.1): either from DTEND or DURATION. Without
+ * them, an event lasts the whole day when it starts on a date, and takes no time otherwise.
+ */
+function _getICalEventEnd(
+	vEvent: JSONCal,
+	start: ICalDate,
+	timeZones: ICalTimeZones,
+): Dayjs {
+	const [endProperty] = getICalProperties(vEvent, "DTEND")
+	const [durationProperty] = getICalProperties(vEvent, "DURATION")
+	if (endProperty) {
+		return _parseICalDate(endProperty, timeZones).moment
+	}
+	const duration = durationProperty
+		? parseICalDuration(durationProperty.value)
+		: { days: start.isAllDay ? 1 : 0, milliseconds: 0 }
+	return addICalDuration(start.moment, duration, start.timeZone)
+}
+
+function _parseICalRecurrence(
+	vEvent: JSONCal,
+	event: DayjsPeriod,
+	recurrenceTimeZone: ICalTimeZone,
+	timeZones: ICalTimeZones,
+): ICalRecurrence {
+	const [rRuleProperty] = getICalProperties(vEvent, "RRULE")
+	const [recurrenceIdProperty] = getICalProperties(vEvent, "RECURRENCE-ID")
+	return {
+		timeZone: recurrenceTimeZone,
+		recurrenceRule: rRuleProperty
+			&& parseICalRecurrenceRule(rRuleProperty.value, recurrenceTimeZone),
+		recurrenceDates: _parseICalDateLists(vEvent, "RDATE", timeZones)
+			.map((period) => ({
+				startAt: period.startAt,
+				endAt: period.endAt ?? period.startAt.add(event.endAt.diff(event.startAt)),
+			})),
+		exceptionDates: _parseICalDateLists(vEvent, "EXDATE", timeZones)
+			.map((period) => period.startAt),
+		recurrenceId: recurrenceIdProperty
+			&& _parseICalDate(recurrenceIdProperty, timeZones).moment,
+	}
+}
+
+/* Return the occurrences of the events, expanding their recurrences in the search window */
+function _getOccurrences(
+	events: ICalEvent[],
+	overriddenInstances: { [uid: string]: number[] },
+	searchWindow?: DayjsPeriod,
+): DayjsPeriod[] {
+	const occurrences: DayjsPeriod[] = []
+	events.forEach((event) => occurrences.push(..._getEventOccurrences(
+		event,
+		(!event.recurrenceId && event.uid && overriddenInstances[event.uid]) || [],
+		searchWindow,
+	)))
+	return occurrences
+}
+
+/*
+ * Return every occurrence of an event. Occurrences overridden by another event or excluded by the
+ * event itself are omitted, as well as occurrences outside the search window (if any).
+ */
+function _getEventOccurrences(
+	event: ICalEvent,
+	overriddenInstances: number[],
+	searchWindow?: DayjsPeriod,
+): DayjsPeriod[] {
+	const occurrences = event.recurrenceRule
+		? _expandICalRecurrenceRule(event, event.recurrenceRule, searchWindow)
+		: [{ startAt: event.startAt, endAt: event.endAt }]
+	const excludedInstances = overriddenInstances
+		.concat(event.exceptionDates.map((date) => date.valueOf()))
+	/* Occurrences share the seats and details of the event */
+	const extras = event.seats == null
+		? { ...event.details }
+		: { ...event.details, seats: event.seats }
+
+	return occurrences
+		.concat(event.recurrenceDates)
+		.filter((occurrence) => (
+			excludedInstances.indexOf(occurrence.startAt.valueOf()) < 0
+			&& (
+				!searchWindow
+				|| (
+					occurrence.startAt.isBefore(searchWindow.endAt)
+					&& occurrence.endAt.isAfter(searchWindow.startAt)
+				)
+			)
+		))
+		.map((occurrence) => ({ ...occurrence, ...extras }))
+}
+
+function _expandICalRecurrenceRule(
+	event: ICalEvent,
+	rule: RecurrenceRule,
+	searchWindow?: DayjsPeriod,
+): DayjsPeriod[] {
+	const localStart = toLocalTime(event.startAt, event.timeZone)
+	const duration = toLocalTime(event.endAt, event.timeZone).diff(localStart)
+	/* Local times are within a day of UTC ones */
+	const localWindow = searchWindow && {
+		startAt: dayjs.utc(searchWindow.startAt.valueOf())
+			.subtract(1, "day")
+			.subtract(duration),
+		endAt: dayjs.utc(searchWindow.endAt.valueOf()).add(1, "day"),
+	}
+	return expandRecurrenceRule(rule, localStart, localWindow).map((occurrenceStart) => ({
+		startAt: fromLocalTime(occurrenceStart, event.timeZone),
+		endAt: fromLocalTime(occurrenceStart.add(duration), event.timeZone),
+	}))
+}
+
+/* Parse comma separated lists of dates (or periods) that may be spread over several properties */
+function _parseICalDateLists(vEvent: JSONCal, name: string, timeZones: ICalTimeZones) {
+	return getICalProperties(vEvent, name).reduce((periods: ICalDateListItem[], property) => (
+		periods.concat(property.value.split(",").map((value) => {
+			const [start, end] = value.split("/")
+			const startDate = _parseICalDate({ ...property, value: start }, timeZones)
+			const startAt = startDate.moment
+			if (!end) {
+				return { startAt }
+			}
+			/* The end of a period is either a date or a duration */
+			const endAt = end.indexOf("P") >= 0
+				? addICalDuration(startAt, parseICalDuration(end), startDate.timeZone)
+				: _parseICalDate({ ...property, value: end }, timeZones).moment
+			return { startAt, endAt }
+		}))
+	), [])
+}
+
+function _parseICalDate(property: ICalProperty, timeZones: ICalTimeZones): ICalDate {
+	const tzid = property.params.TZID || timeZones.floating
+	const timeZone = resolveICalTimeZone(tzid, timeZones.definitions)
+	return parseICalDate(property.value, timeZone, timeZones.allDay)
 }
@@ -0,0 +1,115 @@
+import { JSONCal } from "ical2json"
+import {
+	CalendarData,
+	CalendarExtractionOptions,
+	DayjsPeriod,
+	JCalComponent,
+	JCalProperty,
+} from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { parseVCalendar } from "./ical"
+import { parseJSONCalendarData } from "./json-data"
+
+/**
+ * Extract the events of a jCal calendar (RFC 7265). jCal being the JSON representation of iCal
+ * data, the calendar is converted to the structure used by the iCal extractor so that both
+ * formats share the same semantics.
+ * @throws {TimeSlotsFinderError} If the calendar data is invalid.
+ * @param {CalendarData} calendarData The calendar, either as a JSON string or parsed.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options
+ * @returns {DayjsPeriod[]}
+ */
+export function extractEventsFromJCal(
+	calendarData: CalendarData,
+	preferredTimeZone: string,
+	options: CalendarExtractionOptions = {},
+): DayjsPeriod[] {
+	return parseJCalCalendar(calendarData, preferredTimeZone, options)(options.searchWindow)
+}
+
+/**
+ * Parse a jCal calendar once, giving a function extracting its events overlapping a search
+ * window: only the recurrences are expanded again for each window.
+ * @throws {TimeSlotsFinderError} If the calendar data is invalid.
+ * @param {CalendarData} calendarData The calendar, either as a JSON string or parsed.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options The options, but the search window.
+ * @returns {Function}
+ */
+export function parseJCalCalendar(
+	calendarData: CalendarData,
+	preferredTimeZone: string,
+	options: Omit<CalendarExtractionOptions, "searchWindow"> = {},
+): (searchWindow?: DayjsPeriod) => DayjsPeriod[] {
+	const jCal = parseJSONCalendarData(calendarData, "jCal")
+	if (!_isJCalComponent(jCal) || jCal[0].toLowerCase() !== "vcalendar") {
+		throw new TimeSlotsFinderError("Invalid jCal calendar data: vcalendar component expected")
+	}
+	return parseVCalendar(_toJSONCal(jCal), preferredTimeZone, options)
+}
+
+function _isJCalComponent(value: unknown): value is JCalComponent {
+	return Array.isArray(value)
+		&& typeof value[0] === "string"
+		&& Array.isArray(value[1])
+		&& Array.isArray(value[2])
+}
+
+/* Convert a component (and its sub-components) to the structure produced by `ical2json` */
+function _toJSONCal([, properties, components]: JCalComponent): JSONCal {
+	const jsonCal: JSONCal = {}
+	properties.forEach((property) => {
+		const key = _getICalKey(property)
+		const value = _getICalValue(property)
+		jsonCal[key] = jsonCal[key] == null ? value : ([] as unknown[]).concat(jsonCal[key], value)
+	})
+	components.filter(_isJCalComponent).forEach((component) => {
+		const name = component[0].toUpperCase()
+		jsonCal[name] = ((jsonCal[name] ?? []) as JSONCal[]).concat(_toJSONCal(component))
+	})
+	return jsonCal
+}
+
+/* Build the key of a property, e.g. `DTSTART;TZID=Europe/Paris` */
+function _getICalKey([name, params]: JCalProperty): string {
+	return Object.keys(params ?? {}).reduce((key, param) => (
+		`${key};${param.toUpperCase()}=${([] as string[]).concat(params[param]).join(",")}`
+	), name.toUpperCase())
+}
+
+/* Format the values of a property in the iCal format, separated by commas */
+function _getICalValue([, , type, ...values]: JCalProperty): string {
+	return values.map((value) => {
+		switch (type) {
+		case "date":
+		case "date-time":
+			return _formatJCalDate(String(value))
+		case "period":
+			return (value as string[]).map(_formatJCalDate).join("/")
+		case "utc-offset":
+			return String(value).replace(":", "")
+		case "recur":
+			return _formatJCalRecur(value as { [part: string]: unknown })
+		default:
+			return String(value)
+		}
+	}).join(",")
+}
+
+/* Remove the separators of a date or date-time, e.g. `2020-10-16T09:00:00Z` → `20201016T090000Z` */
+function _formatJCalDate(value: string): string {
+	return value
+		.replace(/^(\d{4})-(\d{2})-(\d{2})/, "$1$2$3")
+		.replace(/T(\d{2}):(\d{2}):(\d{2})/, "T$1$2$3")
+}
+
+/* Format a recurrence rule, e.g. `{ freq: "WEEKLY", byday: ["MO", "TU"] }` */
+function _formatJCalRecur(recur: { [part: string]: unknown }): string {
+	const parts = Object.keys(recur).map((part) => {
+		const values = ([] as unknown[]).concat(recur[part]).map(String)
+		const isDate = part.toLowerCase() === "until"
+		return `${part.toUpperCase()}=${(isDate ? values.map(_formatJCalDate) : values).join(",")}`
+	})
+	return parts.join(";")
+}
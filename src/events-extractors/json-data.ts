@@ -0,0 +1,20 @@
+import { TimeSlotsFinderError } from "../errors"
+
+/**
+ * Parse the data of a JSON based calendar format, provided either as a JSON string or as an
+ * already parsed object.
+ * @throws {TimeSlotsFinderError} If the data is a malformed JSON string.
+ * @param {unknown} calendarData The calendar data.
+ * @param {string} format The name of the format, used in error messages.
+ * @returns {unknown}
+ */
+export function parseJSONCalendarData(calendarData: unknown, format: string): unknown {
+	if (typeof calendarData !== "string") {
+		return calendarData
+	}
+	try {
+		return JSON.parse(calendarData)
+	} catch (_) {
+		throw new TimeSlotsFinderError(`Invalid ${format} calendar data: malformed JSON`)
+	}
+}
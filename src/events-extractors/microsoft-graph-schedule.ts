@@ -0,0 +1,151 @@
+import dayjs, { Dayjs } from "dayjs"
+import {
+	CalendarData,
+	CalendarExtractionOptions,
+	DayjsPeriod,
+	EventAvailability,
+	GraphDateTimeTimeZone,
+	GraphScheduleResponse,
+} from "../types"
+import { TimeSlotsFinderError } from "../errors"
+import { AvailabilityPeriod, getBlockingPeriods } from "./event-availability"
+import { resolveICalTimeZone } from "./ical-time-zones"
+import { parseJSONCalendarData } from "./json-data"
+
+type GraphSchedule = GraphScheduleResponse["value"][number]
+
+const LOCAL_TIME_FORMAT = "YYYY-MM-DDTHH:mm:ss"
+
+/** Local date-times of the Graph API, whose fractions of seconds have 7 digits. */
+const GRAPH_DATE_TIME_REGEX = /^(\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2})(?:\.(\d{1,7}))?$/
+
+/** The availabilities matching the `status` of schedule items. */
+const GRAPH_STATUSES: { [status: string]: EventAvailability } = {
+	free: EventAvailability.free,
+	tentative: EventAvailability.tentative,
+	busy: EventAvailability.busy,
+	oof: EventAvailability.outOfOffice,
+	workingElsewhere: EventAvailability.workingElsewhere,
+}
+
+/** The availabilities matching the digits of an availability view. */
+const GRAPH_AVAILABILITY_VIEW_DIGITS: { [digit: string]: EventAvailability } = {
+	0: EventAvailability.free,
+	1: EventAvailability.tentative,
+	2: EventAvailability.busy,
+	3: EventAvailability.outOfOffice,
+	4: EventAvailability.workingElsewhere,
+}
+
+/**
+ * Extract the unavailable periods of a response of the Microsoft Graph API `getSchedule` action.
+ * The schedule items of all the schedules of the response are extracted, their status being
+ * mapped on the events availability: `oof` always blocks the time, `workingElsewhere` follows the
+ * blocking policy, and unknown statuses are considered busy. The availability view of a schedule
+ * is used when it has no schedule items, provided that the response includes the `startTime` (and
+ * `availabilityViewInterval`) of the request.
+ * @throws {TimeSlotsFinderError} If the response is invalid or reports an error for a schedule.
+ * @param {CalendarData} calendarData The response, either as a JSON string or parsed.
+ * @param {string} preferredTimeZone The time zone of the extracted events.
+ * @param {CalendarExtractionOptions} options
+ * @returns {DayjsPeriod[]}
+ */
+export function extractEventsFromGraphSchedule(
+	calendarData: CalendarData,
+	preferredTimeZone: string,
+	options: CalendarExtractionOptions = {},
+): DayjsPeriod[] {
+	const response = parseJSONCalendarData(calendarData, "Microsoft Graph schedule")
+	if (!_isGraphScheduleResponse(response)) {
+		throw new TimeSlotsFinderError(
+			"Invalid Microsoft Graph schedule calendar data: value expected",
+		)
+	}
+	const periods: AvailabilityPeriod[] = []
+	/* Schedule items are numbered across all the schedules of the response */
+	let index = 0
+	response.value.forEach((schedule) => {
+		_checkGraphSchedule(schedule)
+		if (!schedule.scheduleItems) {
+			periods.push(..._parseGraphAvailabilityView(schedule, response))
+			return
+		}
+		schedule.scheduleItems.forEach((item) => {
+			try {
+				periods.push(_parseGraphScheduleItem(item))
+			} catch (error) {
+				options.onSkippedEvent?.({ index, reason: (error as Error).message })
+			}
+			index += 1
+		})
+	})
+	return getBlockingPeriods(periods, preferredTimeZone, options)
+}
+
+function _isGraphScheduleResponse(value: unknown): value is GraphScheduleResponse {
+	return Array.isArray(((value ?? {}) as { value?: unknown }).value)
+}
+
+/* Ignoring a schedule in error would make its busy time available */
+function _checkGraphSchedule(schedule: GraphSchedule): void {
+	if (schedule?.error) {
+		const reason = schedule.error.message ?? schedule.error.responseCode
+		throw new TimeSlotsFinderError(
+			`Microsoft Graph schedule error for ${schedule.scheduleId}: ${reason}`,
+		)
+	}
+}
+
+function _parseGraphScheduleItem(
+	item: NonNullable<GraphSchedule["scheduleItems"]>[number],
+): AvailabilityPeriod {
+	const startAt = _parseGraphDateTime(item?.start)
+	const endAt = _parseGraphDateTime(item?.end)
+	if (endAt.valueOf() < startAt.valueOf()) {
+		throw new TimeSlotsFinderError("End date is before start date")
+	}
+	return { startAt, endAt, availability: GRAPH_STATUSES[item.status] ?? EventAvailability.busy }
+}
+
+/* Merge the consecutive items of an availability view having the same availability */
+function _parseGraphAvailabilityView(
+	schedule: GraphSchedule,
+	response: GraphScheduleResponse,
+): AvailabilityPeriod[] {
+	const view = schedule.availabilityView ?? ""
+	if (!view) {
+		return []
+	}
+	if (!response.startTime) {
+		throw new TimeSlotsFinderError(
+			`Missing start time to read the availability view of ${schedule.scheduleId}`,
+		)
+	}
+	const periods: AvailabilityPeriod[] = []
+	const interval = response.availabilityViewInterval ?? 30
+	const viewStartAt = _parseGraphDateTime(response.startTime)
+	view.split("").forEach((digit, position) => {
+		const availability = GRAPH_AVAILABILITY_VIEW_DIGITS[digit] ?? EventAvailability.busy
+		const startAt = viewStartAt.add(position * interval, "minute")
+		const endAt = startAt.add(interval, "minute")
+		const previous = periods[periods.length - 1]
+		if (previous?.availability === availability) {
+			previous.endAt = endAt
+		} else {
+			periods.push({ startAt, endAt, availability })
+		}
+	})
+	return periods
+}
+
+/* Parse a date and time expressed in an IANA or Windows time zone (UTC by default) */
+function _parseGraphDateTime(dateTime?: GraphDateTimeTimeZone): Dayjs {
+	const match = GRAPH_DATE_TIME_REGEX.exec(dateTime?.dateTime ?? "")
+	/* Dayjs silently overflows invalid dates, e.g. the 30th of February */
+	if (!dateTime || !match || dayjs.utc(match[1]).format(LOCAL_TIME_FORMAT) !== match[1]) {
+		throw new TimeSlotsFinderError(`Invalid Microsoft Graph date: ${dateTime?.dateTime}`)
+	}
+	const timeZone = resolveICalTimeZone(dateTime.timeZone || "UTC", {}) as string
+	const milliseconds = Math.floor(Number(`0.${match[2] ?? 0}`) * 1000)
+	return dayjs.tz(match[1], timeZone).add(milliseconds, "millisecond")
+}
@@ -0,0 +1,219 @@
+import dayjs, { Dayjs } from "dayjs"
+
+import { getSearchShifts, SearchShift } from "./shifts"
+import { getShiftConfiguration } from "./slot-settings"
+import { toExtractedPeriod } from "./events-extractors/extractor"
+import {
+	DatePeriod,
+	DayjsPeriod,
+	ExtractedPeriod,
+	Shift,
+	TimeSlot,
+	TimeSlotsFinderConfiguration,
+} from "./types"
+
+/** What some time of a shift went to. */
+export enum TimelineEntryType {
+	/** The time of offered slots. */
+	slot = "slot",
+	/** The time of slots which are not offered: full, or exceeding a booking quota. */
+	rejectedSlot = "rejectedSlot",
+	/**
+	 * The time before the first slot allowed or after the last one: the boundaries of the search,
+	 * `minTimeBeforeFirstSlot` or `maxDaysBeforeLastSlot`.
+	 */
+	bookingWindow = "bookingWindow",
+	/** The time of a calendar event. */
+	calendarEvent = "calendarEvent",
+	/** The time of an unavailable period. */
+	unavailablePeriod = "unavailablePeriod",
+	/**
+	 * The free time required around calendar events and unavailable periods: the padding of
+	 * events, `minAvailableTimeBeforeSlot` and `minAvailableTimeAfterSlot`.
+	 */
+	buffer = "buffer",
+	/** The free time left: too short for a slot, or not on the minute step of slot starts. */
+	gap = "gap",
+}
+
+/** A part of the timeline of a shift. */
+export interface TimelineEntry extends DatePeriod {
+	type: TimelineEntryType
+	/** For calendar events, the event with its identifier and details. */
+	event?: ExtractedPeriod
+}
+
+/**
+ * A shift of a day, with what its time went to. Shifts the search merges (e.g. an overnight shift
+ * and the morning shift of the next day) are explained as one.
+ */
+export interface ShiftExplanation extends DatePeriod {
+	/** The shift with the settings inherited from its available period, the first one if merged. */
+	shift: Shift
+	/** The parts of the shift, in order and without overlaps. */
+	timeline: TimelineEntry[]
+}
+
+/** The shifts of a day of a search, with what their time went to. */
+export interface DayExplanation {
+	/** The date of the day, in the `YYYY-MM-DD` format and the time zone of the configuration. */
+	date: string
+	/**
+	 * The shifts starting that day, none when the day isn't available. The first day also has the
+	 * shifts started before the search and ending during it.
+	 */
+	shifts: ShiftExplanation[]
+}
+
+/** What a search found, to be explained. */
+export interface SearchDetails {
+	/** The calendar events, and the same events extended with their padding. */
+	calendarEvents: DayjsPeriod[]
+	paddedEvents: DayjsPeriod[]
+	/** The occurrences of the unavailable periods. */
+	unavailableEvents: DayjsPeriod[]
+	/** The slots found in the free time, then the ones offered: neither full nor over a quota. */
+	foundSlots: TimeSlot[]
+	timeSlots: TimeSlot[]
+}
+
+/** The boundaries of a search to explain, with the ones limited by its configuration. */
+export interface ExplainedSearch {
+	configuration: TimeSlotsFinderConfiguration
+	from: Date
+	to: Date
+	firstFromMoment: Dayjs
+	lastToMoment: Dayjs
+}
+
+/* A part of a timeline, with timestamps cheaper to compare */
+interface TimedEntry {
+	type: TimelineEntryType
+	startAt: number
+	endAt: number
+	event?: DayjsPeriod
+}
+
+/**
+ * Explain the days of a search: what the time of each of their shifts went to. Overlapping
+ * causes are reported once, in the order of `TimelineEntryType`.
+ * @param {ExplainedSearch} search The search, with a valid configuration.
+ * @param {SearchDetails} details What the search found.
+ * @returns {DayExplanation[]}
+ */
+export function explainDays(search: ExplainedSearch, details: SearchDetails): DayExplanation[] {
+	const { configuration, from, to } = search
+	const entries = _getSearchEntries(search, details)
+	const fromMoment = dayjs(from).tz(configuration.timeZone)
+	const toMoment = dayjs(to).tz(configuration.timeZone)
+	/* The shifts of the search, including the ones out of the booking window */
+	const searchShifts = getSearchShifts(configuration, fromMoment, toMoment)
+	const explanations: DayExplanation[] = []
+	let day = fromMoment.startOf("day")
+	/* Time zone aware comparisons being slow, timestamps are compared */
+	while (day.valueOf() < to.getTime()) {
+		const date = day.format("YYYY-MM-DD")
+		const shifts = searchShifts
+			.filter((searchShift) => searchShift.startAt.format("YYYY-MM-DD") === date)
+			.map((searchShift) => _explainShift(
+				searchShift,
+				entries.concat(_getBufferEntries(configuration, searchShift.shift, details)),
+			))
+		explanations.push({ date, shifts })
+		day = day.add(1, "day").startOf("day")
+	}
+	return explanations
+}
+
+/* The parts of timelines common to all shifts, in the order of their types */
+function _getSearchEntries(search: ExplainedSearch, details: SearchDetails): TimedEntry[] {
+	const { calendarEvents, unavailableEvents, foundSlots, timeSlots } = details
+	const offeredSlots = timeSlots.map(({ startAt }) => startAt.getTime())
+	const toEntry = (type: TimelineEntryType) => (period: DayjsPeriod | TimeSlot) => ({
+		type,
+		startAt: period.startAt.valueOf(),
+		endAt: period.endAt.valueOf(),
+	})
+	const { bookingWindow } = TimelineEntryType
+	return [
+		{ type: bookingWindow, startAt: -Infinity, endAt: search.firstFromMoment.valueOf() },
+		{ type: bookingWindow, startAt: search.lastToMoment.valueOf(), endAt: Infinity },
+		...timeSlots.map(toEntry(TimelineEntryType.slot)),
+		...foundSlots
+			.filter((slot) => offeredSlots.indexOf(slot.startAt.getTime()) < 0)
+			.map(toEntry(TimelineEntryType.rejectedSlot)),
+		...calendarEvents.map((event) => ({
+			...toEntry(TimelineEntryType.calendarEvent)(event),
+			event,
+		})),
+		...unavailableEvents.map(toEntry(TimelineEntryType.unavailablePeriod)),
+	]
+}
+
+/*
+ * The free time required around busy periods, depending on the settings of a shift. Calendar
+ * events take seats in the slots of group sessions instead of blocking them.
+ */
+function _getBufferEntries(
+	configuration: TimeSlotsFinderConfiguration,
+	shift: Shift,
+	{ paddedEvents, unavailableEvents }: SearchDetails,
+): TimedEntry[] {
+	const shiftConfiguration = getShiftConfiguration(configuration, shift)
+	const busyPeriods = (shift.capacity ?? configuration.capacity) == null
+		? paddedEvents.concat(unavailableEvents)
+		: unavailableEvents
+	const before = (shiftConfiguration.minAvailableTimeBeforeSlot ?? 0) * 60000
+	const after = (shiftConfiguration.minAvailableTimeAfterSlot ?? 0) * 60000
+	return busyPeriods.map((period) => ({
+		type: TimelineEntryType.buffer,
+		startAt: period.startAt.valueOf() - after,
+		endAt: period.endAt.valueOf() + before,
+	}))
+}
+
+/* Split a shift at the boundaries of its entries, each part going to the first entry covering it */
+function _explainShift(
+	{ shift, occurrence }: SearchShift,
+	entries: TimedEntry[],
+): ShiftExplanation {
+	const startAt = occurrence.startAt.valueOf()
+	const endAt = occurrence.endAt.valueOf()
+	const shiftEntries = entries.filter((entry) => entry.startAt < endAt && entry.endAt > startAt)
+	const boundaries = _getBoundaries(shiftEntries, startAt, endAt)
+	const timeline = boundaries.slice(1).reduce((parts: TimedEntry[], partEnd, index) => {
+		const partStart = boundaries[index]
+		const entry = shiftEntries.find((candidate) => (
+			candidate.startAt <= partStart && candidate.endAt >= partEnd
+		))
+		const type = entry?.type ?? TimelineEntryType.gap
+		const last = parts[parts.length - 1]
+		/* Consecutive parts going to the same cause are merged */
+		if (last && last.type === type && last.event === entry?.event) {
+			last.endAt = partEnd
+			return parts
+		}
+		return parts.concat({ type, startAt: partStart, endAt: partEnd, event: entry?.event })
+	}, [])
+	return {
+		startAt: occurrence.startAt.toDate(),
+		endAt: occurrence.endAt.toDate(),
+		shift,
+		timeline: timeline.map(_toTimelineEntry),
+	}
+}
+
+/* The moments the parts of a shift start or end at, sorted */
+function _getBoundaries(entries: TimedEntry[], startAt: number, endAt: number): number[] {
+	return entries
+		.reduce((moments: number[], entry) => moments.concat(entry.startAt, entry.endAt), [])
+		.filter((moment) => moment > startAt && moment < endAt)
+		.concat(startAt, endAt)
+		.sort((a, b) => a - b)
+		.filter((moment, index, moments) => index === 0 || moment !== moments[index - 1])
+}
+
+function _toTimelineEntry({ type, startAt, endAt, event }: TimedEntry): TimelineEntry {
+	const entry = { type, startAt: new Date(startAt), endAt: new Date(endAt) }
+	return event ? { ...entry, event: toExtractedPeriod(event) } : entry
+}
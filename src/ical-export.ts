@@ -0,0 +1,118 @@
+import dayjs from "dayjs"
+import { TimeSlotsFinderError } from "./errors"
+import { DatePeriod, ICalExportComponent, ICalExportOptions } from "./types"
+
+const ICAL_UTC_FORMAT = "YYYYMMDD[T]HHmmss[Z]"
+/** Lines longer than 75 octets must be folded (RFC 5545, section 3.1), assuming ASCII text. */
+const ICAL_MAX_LINE_LENGTH = 75
+const DEFAULT_PRODUCT_ID = "-//time-slots-finder//EN"
+
+/**
+ * Export time slots (or any available periods) as an iCal calendar, so that other calendar tools
+ * can consume the availabilities. Slots are either listed as free time in a VFREEBUSY component,
+ * or exported as transparent VEVENT components.
+ * @throws {TimeSlotsFinderError} If a time slot is invalid.
+ * @param {DatePeriod[]} timeSlots The slots to export, e.g. the result of a search.
+ * @param {ICalExportOptions} options
+ * @returns {string}
+ */
+export function exportTimeSlotsToICal(
+	timeSlots: DatePeriod[],
+	options: ICalExportOptions = {},
+): string {
+	const periods = timeSlots.map(_checkTimeSlot)
+	const slots = options.mergeSlots ? _mergeTimeSlots(periods) : periods
+	const timestamp = _formatICalUTCDate(options.now ?? new Date())
+	const components = options.component === ICalExportComponent.event
+		? slots.map((slot) => _formatICalEvent(slot, timestamp, options.summary ?? "Available"))
+		: [_formatICalFreeBusy(slots, timestamp)]
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${options.productId ?? DEFAULT_PRODUCT_ID}`,
+		...components.reduce((componentLines, component) => componentLines.concat(component), []),
+		"END:VCALENDAR",
+	]
+	return `${lines.map(_foldICalLine).join("\r\n")}\r\n`
+}
+
+function _checkTimeSlot(timeSlot: DatePeriod, index: number): DatePeriod {
+	const { startAt, endAt } = timeSlot ?? {}
+	if (
+		!(startAt instanceof Date) || Number.isNaN(startAt.getTime())
+		|| !(endAt instanceof Date) || Number.isNaN(endAt.getTime())
+		|| endAt.getTime() < startAt.getTime()
+	) {
+		throw new TimeSlotsFinderError(`Time slot nº${index + 1} is invalid`)
+	}
+	return { startAt, endAt }
+}
+
+/* Merge overlapping or adjacent slots, giving the free windows they belong to */
+function _mergeTimeSlots(timeSlots: DatePeriod[]): DatePeriod[] {
+	const sortedSlots = timeSlots
+		.slice()
+		.sort((a, b) => a.startAt.getTime() - b.startAt.getTime())
+	return sortedSlots.reduce((windows: DatePeriod[], slot) => {
+		const previous = windows[windows.length - 1]
+		if (previous && slot.startAt.getTime() <= previous.endAt.getTime()) {
+			const endTime = Math.max(previous.endAt.getTime(), slot.endAt.getTime())
+			previous.endAt = new Date(endTime)
+		} else {
+			windows.push({ ...slot })
+		}
+		return windows
+	}, [])
+}
+
+function _formatICalFreeBusy(timeSlots: DatePeriod[], timestamp: string): string[] {
+	const lines = ["BEGIN:VFREEBUSY", `UID:${timestamp}-free-busy@time-slots-finder`]
+	lines.push(`DTSTAMP:${timestamp}`)
+	if (timeSlots.length) {
+		const startTime = Math.min(...timeSlots.map((slot) => slot.startAt.getTime()))
+		const endTime = Math.max(...timeSlots.map((slot) => slot.endAt.getTime()))
+		lines.push(`DTSTART:${_formatICalUTCDate(new Date(startTime))}`)
+		lines.push(`DTEND:${_formatICalUTCDate(new Date(endTime))}`)
+	}
+	/* One property per slot, which keeps the lines short */
+	timeSlots.forEach((slot) => lines.push(
+		`FREEBUSY;FBTYPE=FREE:${_formatICalUTCDate(slot.startAt)}/${_formatICalUTCDate(slot.endAt)}`,
+	))
+	return lines.concat("END:VFREEBUSY")
+}
+
+function _formatICalEvent(timeSlot: DatePeriod, timestamp: string, summary: string): string[] {
+	const startAt = _formatICalUTCDate(timeSlot.startAt)
+	const endAt = _formatICalUTCDate(timeSlot.endAt)
+	return [
+		"BEGIN:VEVENT",
+		`UID:${startAt}-${endAt}@time-slots-finder`,
+		`DTSTAMP:${timestamp}`,
+		`DTSTART:${startAt}`,
+		`DTEND:${endAt}`,
+		`SUMMARY:${_escapeICalText(summary)}`,
+		/* Available time must not make the time unavailable in other calendars */
+		"TRANSP:TRANSPARENT",
+		"END:VEVENT",
+	]
+}
+
+function _formatICalUTCDate(date: Date): string {
+	return dayjs.utc(date).format(ICAL_UTC_FORMAT)
+}
+
+function _escapeICalText(text: string): string {
+	return text
+		.replace(/\\/g, "\\\\")
+		.replace(/([;,])/g, "\\$1")
+		.replace(/\r?\n/g, "\\n")
+}
+
+/* Split long lines, continuation lines starting with a space */
+function _foldICalLine(line: string): string {
+	const chunks = [line.slice(0, ICAL_MAX_LINE_LENGTH)]
+	for (let i = ICAL_MAX_LINE_LENGTH; i < line.length; i += ICAL_MAX_LINE_LENGTH - 1) {
+		chunks.push(` ${line.slice(i, i + ICAL_MAX_LINE_LENGTH - 1)}`)
+	}
+	return chunks.join("\r\n")
+}
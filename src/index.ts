@@ -3,10 +3,74 @@ import "./dayjs-setup"
 import { getAvailableTimeSlotsInCalendar, TimeSlotsFinderParameters } from "./time-slots"
 import { isConfigurationValid } from "./config-management"
 import {
+	TimeSlotsFinder,
+	TimeSlotsFinderIterationQuery,
+	TimeSlotsFinderOptions,
+	TimeSlotsFinderQuery,
+} from "./time-slots-finder"
+import {
+	findNextAvailableSlot,
+	iterateAvailableTimeSlotsInCalendar,
+	TimeSlotsIterationParameters,
+} from "./slot-iterator"
+import {
+	getAvailableTimeSlotsForParticipants,
+	ParticipantsSearchParameters,
+	TimeSlotsFinderParticipant,
+} from "./participants"
+import {
+	getAvailableTimeSlotsInResourcePool,
+	ResourcePoolSearchParameters,
+	TimeSlotsFinderResource,
+} from "./resource-pools"
+import { BookingQuota, QuotaLimits, QuotaPeriod, RejectedTimeSlot } from "./quotas"
+import { EventPadding, EventPaddingRule } from "./event-padding"
+import { SlotGenerationMode } from "./slot-generation"
+import {
+	checkSlotAvailability,
+	SlotAvailability,
+	SlotAvailabilityParameters,
+	SlotViolation,
+	SlotViolationType,
+} from "./slot-check"
+import {
+	DayExplanation,
+	ShiftExplanation,
+	TimelineEntry,
+	TimelineEntryType,
+} from "./explanations"
+import { exportTimeSlotsToICal } from "./ical-export"
+import {
+	registerCalendarExtractor,
+	unregisterCalendarExtractor,
+} from "./events-extractors/extractor"
+import {
+	AvailabilityOverride,
+	AvailabilityOverrideMode,
+	CalendarData,
+	CalendarExtractor,
+	CalendarExtractorOptions,
 	DatePeriod,
+	EventBlockingPolicy,
+	EventDetails,
+	ExtractedPeriod,
+	GoogleFreeBusyResponse,
+	GraphDateTimeTimeZone,
+	GraphScheduleResponse,
+	ICalExportComponent,
+	ICalExportOptions,
+	ParticipantsTimeSlot,
 	Period,
+	PeriodRecurrence,
+	PooledTimeSlot,
+	RecurrenceFrequency,
+	RecurrenceWeekDay,
+	ResourceAssignmentStrategy,
 	Shift,
+	SkippedCalendarEvent,
+	SlotSettings,
 	TimeSlot,
+	TimeSlotsFinderCalendar,
 	TimeSlotsFinderCalendarFormat,
 	TimeSlotsFinderConfiguration,
 	AvailablePeriod
@@ -14,13 +78,67 @@ import {
 
 export {
 	TimeSlotsFinderParameters,
+	TimeSlotsIterationParameters,
+	TimeSlotsFinder,
+	TimeSlotsFinderOptions,
+	TimeSlotsFinderQuery,
+	TimeSlotsFinderIterationQuery,
+	ParticipantsSearchParameters,
+	TimeSlotsFinderParticipant,
+	ResourcePoolSearchParameters,
+	TimeSlotsFinderResource,
 	TimeSlotsFinderConfiguration,
 	AvailablePeriod,
+	AvailabilityOverride,
+	AvailabilityOverrideMode,
+	BookingQuota,
+	CalendarData,
+	CalendarExtractor,
+	CalendarExtractorOptions,
 	DatePeriod,
+	DayExplanation,
+	EventBlockingPolicy,
+	EventDetails,
+	EventPadding,
+	EventPaddingRule,
+	ExtractedPeriod,
+	GoogleFreeBusyResponse,
+	GraphDateTimeTimeZone,
+	GraphScheduleResponse,
+	ICalExportComponent,
+	ICalExportOptions,
+	ParticipantsTimeSlot,
 	Period,
+	PeriodRecurrence,
+	PooledTimeSlot,
+	QuotaLimits,
+	QuotaPeriod,
+	RecurrenceFrequency,
+	RecurrenceWeekDay,
+	RejectedTimeSlot,
+	ResourceAssignmentStrategy,
 	Shift,
+	ShiftExplanation,
+	SkippedCalendarEvent,
+	SlotAvailability,
+	SlotAvailabilityParameters,
+	SlotGenerationMode,
+	SlotSettings,
+	SlotViolation,
+	SlotViolationType,
+	TimeSlotsFinderCalendar,
 	TimeSlotsFinderCalendarFormat,
+	TimelineEntry,
+	TimelineEntryType,
 	TimeSlot,
+	checkSlotAvailability,
+	exportTimeSlotsToICal,
+	findNextAvailableSlot,
+	getAvailableTimeSlotsForParticipants,
 	getAvailableTimeSlotsInCalendar,
+	getAvailableTimeSlotsInResourcePool,
 	isConfigurationValid,
+	iterateAvailableTimeSlotsInCalendar,
+	registerCalendarExtractor,
+	unregisterCalendarExtractor,
 }
@@ -0,0 +1,218 @@
+import { Availability, getAvailability, getTimeSlotKey, indexTimeSlots } from "./availability"
+import { TimeSlotsFinderParameters } from "./time-slots"
+import { SlotGenerationMode } from "./slot-generation"
+import { getShiftConfiguration } from "./slot-settings"
+import { TimeSlotsFinderError } from "./errors"
+import {
+	ParticipantsTimeSlot,
+	SkippedCalendarEvent,
+	TimeSlot,
+	TimeSlotsFinderConfiguration,
+} from "./types"
+
+/* Slots are placed in the common free time back to back, or at every common start time */
+const PLACEMENT_MODES: string[] = [SlotGenerationMode.backToBack, SlotGenerationMode.rolling]
+
+export interface TimeSlotsFinderParticipant
+	extends Omit<
+		TimeSlotsFinderParameters,
+		"from" | "to" | "now" | "onSkippedEvent" | "onRejectedSlot" | "onDayExplained"
+	> {
+	/** The identifier of the participant, used to report who is available for each slot. */
+	id: string
+	/** Whether the participant must be available for the slots. Default value is true. */
+	required?: boolean
+}
+
+export interface ParticipantsSearchParameters {
+	/**
+	 * The participants of the meeting, each with their own configuration (available and
+	 * unavailable periods, time zone, free time around slots...) and calendars.
+	 */
+	participants: TimeSlotsFinderParticipant[]
+	/**
+	 * The duration of the slots in minutes. It overrides the global one of the configuration of
+	 * each participant, not the ones of their shifts.
+	 */
+	timeSlotDuration: number
+	/**
+	 * Slots can only start on minutes multiple of this value, in the time zone of each participant.
+	 * Default value is the one of the configuration of each participant.
+	 */
+	slotStartMinuteStep?: number
+	/**
+	 * The way slots are placed in the free time common to the required participants: back to back
+	 * (default) or rolling. Participants having anchored slots only take the ones on their grid.
+	 */
+	slotGenerationMode?: SlotGenerationMode
+	/** Called for each calendar event that cannot be used, with the reason why. */
+	onSkippedEvent?: (skippedEvent: SkippedCalendarEvent) => void
+	/** The date from which searching time slots. */
+	from: Date
+	/** The date to which searching time slots. */
+	to: Date
+	/**
+	 * The moment the search happens at, e.g. to look back at past availabilities. Default value is
+	 * now.
+	 */
+	now?: Date
+}
+
+/* The slots a required participant can take, with the settings of their search */
+interface RequiredParticipantSlots {
+	slotIndex: Record<string, TimeSlot>
+	configuration: TimeSlotsFinderConfiguration
+}
+
+/**
+ * Find the time slots where every required participant is available: slots are placed once in the
+ * free time they have in common, each of them keeping their own rules (settings of shifts,
+ * capacities, quotas...). Slots are ranked by the number of optional participants available (the
+ * most first), then by date, and list the participants available for each of them. If the
+ * parameters or the configuration of a participant are invalid, an error will be thrown.
+ * @throws TimeSlotsFinderError
+ * @param {ParticipantsSearchParameters} params
+ * @return {ParticipantsTimeSlot[]}
+ */
+export function getAvailableTimeSlotsForParticipants(
+	params: ParticipantsSearchParameters,
+): ParticipantsTimeSlot[] {
+	_checkParticipantsSearchParameters(params)
+	const { participants } = params
+	const availabilities = participants.map((participant) => (
+		_getParticipantAvailability(participant, params)
+	))
+	const slotIndexes = availabilities.map(({ bookableSlots }) => indexTimeSlots(bookableSlots))
+	const requiredSlots = participants
+		.map((participant, index) => ({
+			slotIndex: slotIndexes[index],
+			configuration: availabilities[index].configuration,
+		}))
+		.filter((_, index) => _isRequired(participants[index]))
+	/* The slots every required participant can take */
+	const commonSlots = availabilities[participants.findIndex(_isRequired)].bookableSlots
+		.filter((slot) => requiredSlots.every(({ slotIndex }) => slotIndex[getTimeSlotKey(slot)]))
+	const slots = params.slotGenerationMode === SlotGenerationMode.rolling
+		? commonSlots
+		: _placeBackToBack(commonSlots, requiredSlots)
+	return slots
+		.map((slot) => _describeSlot(slot, participants, slotIndexes))
+		.sort((a, b) => (
+			(a.unavailableParticipants.length - b.unavailableParticipants.length)
+			|| (a.startAt.getTime() - b.startAt.getTime())
+		))
+}
+
+function _checkParticipantsSearchParameters(params: ParticipantsSearchParameters): void {
+	const { participants, timeSlotDuration, slotStartMinuteStep, from, to } = params
+	if (!from || !to || from.getTime() > to.getTime()) {
+		throw new TimeSlotsFinderError("Invalid boundaries for the search")
+	}
+	if (timeSlotDuration == null || timeSlotDuration < 1) {
+		throw new TimeSlotsFinderError("Slot duration must be at least 1 minute")
+	}
+	if (slotStartMinuteStep != null && (slotStartMinuteStep < 1 || slotStartMinuteStep > 30)) {
+		throw new TimeSlotsFinderError("Slot start minute step must be contained between 1 and 30")
+	}
+	if (PLACEMENT_MODES.indexOf(params.slotGenerationMode ?? SlotGenerationMode.backToBack) < 0) {
+		throw new TimeSlotsFinderError(`Invalid slot generation mode: ${params.slotGenerationMode}`)
+	}
+	if (!Array.isArray(participants) || !participants.length) {
+		throw new TimeSlotsFinderError("A list of participants is expected")
+	}
+	participants.forEach((participant, index) => {
+		if (!participant?.id) {
+			throw new TimeSlotsFinderError(`Participant nº${index + 1} has no identifier`)
+		}
+		if (participants.findIndex(({ id }) => id === participant.id) !== index) {
+			throw new TimeSlotsFinderError(`Duplicate participant identifier: ${participant.id}`)
+		}
+	})
+	if (!participants.some(_isRequired)) {
+		throw new TimeSlotsFinderError("At least one participant must be required")
+	}
+}
+
+function _isRequired(participant: TimeSlotsFinderParticipant): boolean {
+	return participant.required ?? true
+}
+
+function _getParticipantAvailability(
+	participant: TimeSlotsFinderParticipant,
+	params: ParticipantsSearchParameters,
+): Availability {
+	const { timeSlotDuration, slotStartMinuteStep, from, to, now, onSkippedEvent } = params
+	try {
+		return getAvailability({
+			...participant,
+			from,
+			to,
+			now,
+			onSkippedEvent: onSkippedEvent && ((skippedEvent) => onSkippedEvent({
+				...skippedEvent,
+				participantId: participant.id,
+			})),
+		}, { timeSlotDuration, slotStartMinuteStep })
+	} catch (error) {
+		throw new TimeSlotsFinderError(`Participant ${participant.id}: ${(error as Error).message}`)
+	}
+}
+
+/*
+ * Place slots one after the other in the common free time, as a search for one person does: the
+ * next slot starts after the free time each participant requires between two slots of a shift
+ */
+function _placeBackToBack(
+	commonSlots: TimeSlot[],
+	requiredSlots: RequiredParticipantSlots[],
+): TimeSlot[] {
+	return commonSlots.reduce((slots: TimeSlot[], slot) => {
+		const previous = slots[slots.length - 1]
+		const nextStartAt = previous
+			? previous.endAt.getTime() + _getGap(previous, slot, requiredSlots)
+			: -Infinity
+		if (slot.startAt.getTime() >= nextStartAt) {
+			slots.push(slot)
+		}
+		return slots
+	}, [])
+}
+
+/* The time between two slots: the free time required after the first one, or before the next one */
+function _getGap(previous: TimeSlot, slot: TimeSlot, requiredSlots: RequiredParticipantSlots[]) {
+	return requiredSlots.reduce((gap, { slotIndex, configuration }) => {
+		const { shift } = slotIndex[getTimeSlotKey(previous)]
+		if (!shift || shift !== slotIndex[getTimeSlotKey(slot)].shift) {
+			return gap
+		}
+		const shiftConfiguration = getShiftConfiguration(configuration, shift)
+		/* Anchored slots stay on their grid */
+		if (shiftConfiguration.slotGenerationMode === SlotGenerationMode.anchored) {
+			return gap
+		}
+		return Math.max(
+			gap,
+			shiftConfiguration.minAvailableTimeBeforeSlot ?? 0,
+			shiftConfiguration.minAvailableTimeAfterSlot ?? 0,
+		)
+	}, 0) * 60000
+}
+
+function _describeSlot(
+	slot: TimeSlot,
+	participants: TimeSlotsFinderParticipant[],
+	slotIndexes: Record<string, TimeSlot>[],
+): ParticipantsTimeSlot {
+	const key = getTimeSlotKey(slot)
+	return {
+		startAt: slot.startAt,
+		endAt: slot.endAt,
+		duration: slot.duration,
+		availableParticipants: participants
+			.filter((_, index) => slotIndexes[index][key])
+			.map(({ id }) => id),
+		unavailableParticipants: participants
+			.filter((participant, index) => !slotIndexes[index][key] && !_isRequired(participant))
+			.map(({ id }) => id),
+	}
+}
@@ -0,0 +1,227 @@
+import dayjs, { Dayjs } from "dayjs"
+
+import { TimeSlotsFinderError } from "./errors"
+import { SearchShift } from "./shifts"
+import { DayjsPeriod, Shift, TimeSlot, TimeSlotsFinderConfiguration } from "./types"
+
+/** The limits of a booking quota: a slot is only offered if booking it doesn't exceed them. */
+export interface QuotaLimits {
+	/** The maximum number of calendar events starting during the period. */
+	maxEvents?: number
+	/** The maximum number of minutes booked by calendar events during the period. */
+	maxBookedMinutes?: number
+}
+
+/** The periods booking quotas are counted over, in the time zone of the configuration. */
+export enum QuotaPeriod {
+	day = "day",
+	/** An ISO week, starting on Monday. */
+	week = "week",
+	month = "month",
+}
+
+/** A booking quota, counting the calendar events of each day, week or month. */
+export interface BookingQuota extends QuotaLimits {
+	/** The period the events are counted over. */
+	period: QuotaPeriod
+}
+
+/** A slot which is not offered since booking it would exceed a quota. */
+export interface RejectedTimeSlot extends TimeSlot {
+	/** The quota booking the slot would exceed. */
+	quota: QuotaLimits
+	/** The reason why the slot is rejected. */
+	reason: string
+}
+
+const QUOTA_NAMES: Record<string, string> = {
+	day: "Daily quota",
+	week: "Weekly quota",
+	month: "Monthly quota",
+	shift: "Shift quota",
+}
+
+/* The events booked during the period of a quota */
+interface QuotaUsage {
+	events: number
+	bookedMinutes: number
+}
+
+/* A quota, with the timestamps of the period it counts the events of */
+interface QuotaScope {
+	name: string
+	quota: QuotaLimits
+	startAt: number
+	endAt: number
+}
+
+/**
+ * Check the booking quotas of a configuration. Throws if not valid.
+ * @param {BookingQuota[]} quotas The quotas of the configuration.
+ */
+export function checkBookingQuotas(quotas: BookingQuota[]): void {
+	if (!Array.isArray(quotas)) {
+		throw new TimeSlotsFinderError("A list of quotas is expected")
+	}
+	quotas.forEach((quota, index) => {
+		if (Object.keys(QuotaPeriod).indexOf(quota?.period) < 0) {
+			throw new TimeSlotsFinderError(`Invalid period for quota nº${index + 1}: ${quota?.period}`)
+		}
+		checkQuotaLimits(quota, `quota nº${index + 1}`)
+	})
+}
+
+/**
+ * Check the limits of a booking quota, named by `owner`. Throws if not valid.
+ * @param {QuotaLimits} quota The quota of the configuration or of a shift.
+ * @param {string} owner The name of the quota in error messages.
+ */
+export function checkQuotaLimits(quota: QuotaLimits, owner: string): void {
+	if (quota?.maxEvents == null && quota?.maxBookedMinutes == null) {
+		throw new TimeSlotsFinderError(`A number of events or of booked minutes must be limited for ${owner}`)
+	}
+	if (!_nullOrPositiveInteger(quota.maxEvents)) {
+		throw new TimeSlotsFinderError(`The maximum number of events must be an integer of at least 1 for ${owner}`)
+	}
+	if (!_nullOrPositiveInteger(quota.maxBookedMinutes)) {
+		throw new TimeSlotsFinderError(`The maximum number of booked minutes must be an integer of at least 1 for ${owner}`)
+	}
+}
+
+/**
+ * Get the window whose calendar events are counted by the quotas of a search: the whole days,
+ * weeks and months of the search, and the shifts started the day before it.
+ * @param {TimeSlotsFinderConfiguration} configuration A valid configuration.
+ * @param {DayjsPeriod} searchWindow The window of the search.
+ * @returns {DayjsPeriod}
+ */
+export function getQuotaWindow(
+	configuration: TimeSlotsFinderConfiguration,
+	searchWindow: DayjsPeriod,
+): DayjsPeriod {
+	const { quotas = [], availablePeriods, availabilityOverrides = [] } = configuration
+	const shiftOwners: { shifts: Shift[] }[] = [...availablePeriods, ...availabilityOverrides]
+	const hasShiftQuotas = shiftOwners.some(({ shifts }) => (
+		shifts.some(({ quota }) => quota != null)
+	))
+	if (!quotas.length && !hasShiftQuotas) {
+		return searchWindow
+	}
+	return quotas.reduce((window, { period }) => ({
+		startAt: dayjs.min(window.startAt, _getPeriodStart(searchWindow.startAt, period)),
+		endAt: dayjs.max(window.endAt, _getPeriodEnd(searchWindow.endAt, period)),
+	}), {
+		startAt: searchWindow.startAt.subtract(1, "day"),
+		endAt: searchWindow.endAt,
+	})
+}
+
+/**
+ * Remove the slots which would exceed a quota if booked, counting the calendar events booked
+ * during each day, week or month (in the time zone of the configuration), and during the
+ * occurrence of the shift. Events are counted in the period they start in, and booked minutes
+ * in the periods they overlap.
+ * @param {TimeSlot[]} timeSlots The slots of a shift.
+ * @param {DayjsPeriod[]} events The calendar events already booked.
+ * @param {TimeSlotsFinderConfiguration} configuration The configuration of the search.
+ * @param {SearchShift} shift The shift the slots were found in.
+ * @param {Function} onRejectedSlot Called for each slot removed, with the reason why.
+ * @returns {TimeSlot[]}
+ */
+export function applyBookingQuotas(
+	timeSlots: TimeSlot[],
+	events: DayjsPeriod[],
+	{ configuration, shift }: { configuration: TimeSlotsFinderConfiguration, shift: SearchShift },
+	onRejectedSlot?: (rejectedSlot: RejectedTimeSlot) => void,
+): TimeSlot[] {
+	if (!configuration.quotas?.length && !shift.shift.quota) {
+		return timeSlots
+	}
+	const usages: Record<string, QuotaUsage> = {}
+	return timeSlots.filter((timeSlot) => {
+		const scopes = _getQuotaScopes(timeSlot, configuration, shift)
+		const rejectedSlot = scopes.reduce((rejection: RejectedTimeSlot | null, scope) => {
+			const key = `${scope.name}:${scope.startAt}`
+			usages[key] = usages[key] ?? _getQuotaUsage(events, scope)
+			return rejection ?? _getRejection(timeSlot, scope, usages[key])
+		}, null)
+		if (rejectedSlot && onRejectedSlot) {
+			onRejectedSlot(rejectedSlot)
+		}
+		return !rejectedSlot
+	})
+}
+
+/* Get the quotas a slot is subject to, with the periods it belongs to */
+function _getQuotaScopes(
+	timeSlot: TimeSlot,
+	configuration: TimeSlotsFinderConfiguration,
+	{ occurrence, shift }: SearchShift,
+): QuotaScope[] {
+	const slotStart = dayjs(timeSlot.startAt).tz(configuration.timeZone)
+	const scopes = (configuration.quotas ?? []).map((quota): QuotaScope => ({
+		name: QUOTA_NAMES[quota.period],
+		quota,
+		startAt: _getPeriodStart(slotStart, quota.period).valueOf(),
+		endAt: _getPeriodEnd(slotStart, quota.period).valueOf(),
+	}))
+	return shift.quota
+		? scopes.concat({
+			name: QUOTA_NAMES.shift,
+			quota: shift.quota,
+			startAt: occurrence.startAt.valueOf(),
+			endAt: occurrence.endAt.valueOf(),
+		})
+		: scopes
+}
+
+/* Timestamps are compared directly, time zone aware comparisons being slow */
+function _getQuotaUsage(events: DayjsPeriod[], scope: QuotaScope): QuotaUsage {
+	return events.reduce((usage, event) => {
+		const startAt = event.startAt.valueOf()
+		const endAt = event.endAt.valueOf()
+		const bookedTime = Math.min(endAt, scope.endAt) - Math.max(startAt, scope.startAt)
+		return {
+			events: usage.events + (startAt >= scope.startAt && startAt < scope.endAt ? 1 : 0),
+			bookedMinutes: usage.bookedMinutes + (Math.max(bookedTime, 0) / 60000),
+		}
+	}, { events: 0, bookedMinutes: 0 })
+}
+
+function _getRejection(
+	timeSlot: TimeSlot,
+	{ name, quota }: QuotaScope,
+	usage: QuotaUsage,
+): RejectedTimeSlot | null {
+	if (quota.maxEvents != null && usage.events + 1 > quota.maxEvents) {
+		return {
+			...timeSlot,
+			quota,
+			reason: `${name} of ${quota.maxEvents} events would be exceeded (${usage.events} booked)`,
+		}
+	}
+	if (
+		quota.maxBookedMinutes != null
+		&& usage.bookedMinutes + timeSlot.duration > quota.maxBookedMinutes
+	) {
+		return {
+			...timeSlot,
+			quota,
+			reason: `${name} of ${quota.maxBookedMinutes} booked minutes would be exceeded (${usage.bookedMinutes} booked)`,
+		}
+	}
+	return null
+}
+
+function _getPeriodStart(moment: Dayjs, period: QuotaPeriod): Dayjs {
+	return moment.startOf(period === QuotaPeriod.week ? "isoWeek" : period)
+}
+
+/* Going through the start of the next period keeps wall clock times across offset changes */
+function _getPeriodEnd(moment: Dayjs, period: QuotaPeriod): Dayjs {
+	return _getPeriodStart(_getPeriodStart(moment, period).add(1, period), period)
+}
+
+function _nullOrPositiveInteger(value?: number): boolean {
+	return value == null || (Number.isInteger(value) && value >= 1)
+}
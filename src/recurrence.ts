@@ -0,0 +1,263 @@
+import { Dayjs, OpUnitType } from "dayjs"
+import { DayjsPeriod, RecurrenceFrequency, RecurrenceWeekDay } from "./types"
+
+const RECURRENCE_FREQUENCIES = ["YEARLY", "MONTHLY", "WEEKLY", "DAILY"]
+
+/** Protect against rules that never produce any occurrence (e.g. February 30th). */
+const MAX_RECURRENCE_PERIODS = 10000
+
+export interface RecurrenceRule {
+	/** The type of period the rule repeats on. */
+	frequency: RecurrenceFrequency
+	/** The number of periods between two repetitions. Default value is 1. */
+	interval?: number
+	/** The maximum number of occurrences, including the first one. */
+	count?: number
+	/** The last moment an occurrence can start at (inclusive). */
+	until?: Dayjs
+	/** The months (0 indexed) the occurrences are limited to. */
+	byMonth?: number[]
+	/** The days of the month (negative values count from the end) of the occurrences. */
+	byMonthDay?: number[]
+	/** The weekdays of the occurrences. */
+	byWeekDay?: RecurrenceWeekDay[]
+	/** The positions (negative values count from the end) to keep in each period's occurrences. */
+	bySetPosition?: number[]
+	/** The ISO weekday a week starts on. Default value is 1 (Monday). */
+	weekStart?: number
+}
+
+/**
+ * Find the first field of a recurrence rule whose value is invalid, e.g. an interval of 0 or an
+ * unknown weekday. The limit of the rule is left to the caller.
+ * @param {Omit<RecurrenceRule, "until">} rule The rule to check.
+ * @returns {string | undefined} The name of the invalid field, if any.
+ */
+export function getInvalidRecurrenceField(rule: Omit<RecurrenceRule, "until">): string | undefined {
+	const { byWeekDay } = rule
+	const checks: [string, boolean][] = [
+		["frequency", RECURRENCE_FREQUENCIES.indexOf(rule.frequency) >= 0],
+		["interval", _nullOrIntegerBetween(rule.interval, 1, Infinity)],
+		["count", _nullOrIntegerBetween(rule.count, 1, Infinity)],
+		["byMonth", _nullOrIntegersBetween(rule.byMonth, 0, 11)],
+		["byMonthDay", _nullOrIntegersBetween(rule.byMonthDay, -31, 31, false)],
+		["byWeekDay", byWeekDay == null || (
+			Array.isArray(byWeekDay) && byWeekDay.every(_isWeekDayValid)
+		)],
+		["bySetPosition", _nullOrIntegersBetween(rule.bySetPosition, -366, 366, false)],
+		["weekStart", _nullOrIntegerBetween(rule.weekStart, 1, 7)],
+	]
+	return checks.find(([, isValid]) => !isValid)?.[0]
+}
+
+/**
+ * Expand a recurrence rule into the list of the start moments of its occurrences. Every moment is
+ * expressed in local "wall clock" time, using UTC Dayjs objects: the conversion to real time zones
+ * is up to the caller. The start moment is always the first occurrence.
+ * @param {RecurrenceRule} rule The rule to expand.
+ * @param {Dayjs} start The start moment of the first occurrence.
+ * @param {DayjsPeriod} window If provided, only occurrences starting within it are returned.
+ * @returns {Dayjs[]}
+ */
+export function expandRecurrenceRule(
+	rule: RecurrenceRule,
+	start: Dayjs,
+	window?: DayjsPeriod,
+): Dayjs[] {
+	/* The start moment counts as an occurrence even outside the window */
+	const occurrences = [start]
+	let periodIndex = _getFirstPeriodIndex(rule, start, window)
+	for (let i = 0; i < MAX_RECURRENCE_PERIODS; i += 1, periodIndex += 1) {
+		const periodStart = _getPeriodStart(rule, start, periodIndex)
+		if (_isAfterLimit(rule, periodStart, window)) {
+			break
+		}
+		for (const occurrence of _getPeriodOccurrences(rule, start, periodStart)) {
+			if (!occurrence.isAfter(start)) {
+				continue
+			}
+			if (
+				(rule.count != null && occurrences.length >= rule.count)
+				|| _isAfterLimit(rule, occurrence, window)
+			) {
+				return _filterInWindow(occurrences, rule, window)
+			}
+			occurrences.push(occurrence)
+		}
+	}
+	return _filterInWindow(occurrences, rule, window)
+}
+
+function _filterInWindow(occurrences: Dayjs[], rule: RecurrenceRule, window?: DayjsPeriod) {
+	return occurrences.filter((occurrence) => (
+		(!window || !occurrence.isBefore(window.startAt))
+		&& !_isAfterLimit(rule, occurrence, window)
+	))
+}
+
+function _isAfterLimit(rule: RecurrenceRule, moment: Dayjs, window?: DayjsPeriod) {
+	return Boolean(
+		(rule.until && moment.isAfter(rule.until))
+		|| (window && moment.isAfter(window.endAt))
+	)
+}
+
+function _getPeriodUnit(rule: RecurrenceRule): OpUnitType {
+	switch (rule.frequency) {
+	case "YEARLY": return "year"
+	case "MONTHLY": return "month"
+	case "WEEKLY": return "week"
+	default: return "day"
+	}
+}
+
+/*
+ * When occurrences aren't counted, there is no need to browse the periods preceding the window:
+ * skip them directly (minus one period, to stay on the safe side).
+ */
+function _getFirstPeriodIndex(rule: RecurrenceRule, start: Dayjs, window?: DayjsPeriod) {
+	if (!window || rule.count != null) {
+		return 0
+	}
+	const firstPeriodStart = _getPeriodStart(rule, start, 0)
+	const elapsedPeriods = window.startAt.diff(firstPeriodStart, _getPeriodUnit(rule))
+	return Math.max(0, Math.floor(elapsedPeriods / (rule.interval ?? 1)) - 1)
+}
+
+function _getPeriodStart(rule: RecurrenceRule, start: Dayjs, periodIndex: number) {
+	const unit = _getPeriodUnit(rule)
+	const periodsToAdd = periodIndex * (rule.interval ?? 1)
+	if (unit !== "week") {
+		return start.startOf(unit).add(periodsToAdd, unit)
+	}
+	const day = start.startOf("day")
+	const daysSinceWeekStart = (day.isoWeekday() - (rule.weekStart ?? 1) + 7) % 7
+	return day.subtract(daysSinceWeekStart, "day").add(periodsToAdd * 7, "day")
+}
+
+function _getPeriodOccurrences(rule: RecurrenceRule, start: Dayjs, periodStart: Dayjs) {
+	const occurrences = _getPeriodDays(rule, start, periodStart)
+		.map((day) => day
+			.hour(start.hour())
+			.minute(start.minute())
+			.second(start.second()))
+		.sort((a, b) => a.valueOf() - b.valueOf())
+		.filter((occurrence, i, list) => i === 0 || !occurrence.isSame(list[i - 1]))
+
+	if (!rule.bySetPosition?.length) {
+		return occurrences
+	}
+	return rule.bySetPosition
+		.map((position) => occurrences[position > 0 ? position - 1 : occurrences.length + position])
+		.filter((occurrence) => occurrence)
+		.sort((a, b) => a.valueOf() - b.valueOf())
+}
+
+function _getPeriodDays(rule: RecurrenceRule, start: Dayjs, periodStart: Dayjs): Dayjs[] {
+	switch (rule.frequency) {
+	case "YEARLY":
+		return _getYearDays(rule, start, periodStart)
+	case "MONTHLY":
+		return _isMonthAllowed(rule, periodStart) ? _getMonthDays(rule, start, periodStart) : []
+	case "WEEKLY":
+		return _getWeekDaysInRange(
+			periodStart,
+			periodStart.add(6, "day"),
+			rule.byWeekDay ?? [{ isoWeekDay: start.isoWeekday() }],
+			true,
+		).filter((day) => _isMonthAllowed(rule, day))
+	default:
+		return [periodStart].filter((day) => (
+			_isMonthAllowed(rule, day)
+			&& (!rule.byMonthDay || rule.byMonthDay.some((monthDay) => (
+				monthDay === day.date() || monthDay === day.date() - day.daysInMonth() - 1
+			)))
+			&& (!rule.byWeekDay || rule.byWeekDay.some((w) => w.isoWeekDay === day.isoWeekday()))
+		))
+	}
+}
+
+function _getYearDays(rule: RecurrenceRule, start: Dayjs, yearStart: Dayjs): Dayjs[] {
+	if (!rule.byMonth && !rule.byMonthDay && rule.byWeekDay) {
+		/* Ordinals are relative to the whole year */
+		return _getWeekDaysInRange(yearStart, yearStart.endOf("year"), rule.byWeekDay)
+	}
+	let months = rule.byMonth ?? [start.month()]
+	if (!rule.byMonth && rule.byMonthDay) {
+		months = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11]
+	}
+	return months.reduce((days: Dayjs[], month) => (
+		days.concat(_getMonthDays(rule, start, yearStart.month(month)))
+	), [])
+}
+
+function _getMonthDays(rule: RecurrenceRule, start: Dayjs, monthStart: Dayjs): Dayjs[] {
+	const daysInMonth = monthStart.daysInMonth()
+	const monthDays = (rule.byMonthDay ?? (rule.byWeekDay ? [] : [start.date()]))
+		.map((monthDay) => (monthDay > 0 ? monthDay : daysInMonth + monthDay + 1))
+		.filter((monthDay) => monthDay >= 1 && monthDay <= daysInMonth)
+		.map((monthDay) => monthStart.date(monthDay))
+	if (!rule.byWeekDay) {
+		return monthDays
+	}
+	const weekDays = _getWeekDaysInRange(monthStart, monthStart.endOf("month"), rule.byWeekDay)
+	if (!rule.byMonthDay) {
+		return weekDays
+	}
+	return weekDays.filter((weekDay) => monthDays.some((monthDay) => monthDay.isSame(weekDay)))
+}
+
+function _getWeekDaysInRange(
+	rangeStart: Dayjs,
+	rangeEnd: Dayjs,
+	weekDays: RecurrenceWeekDay[],
+	ignoreOrdinals = false,
+): Dayjs[] {
+	return weekDays.reduce((days: Dayjs[], weekDay) => {
+		const matchingDays: Dayjs[] = []
+		let day = rangeStart.add((weekDay.isoWeekDay - rangeStart.isoWeekday() + 7) % 7, "day")
+		while (day.isSameOrBefore(rangeEnd)) {
+			matchingDays.push(day)
+			day = day.add(7, "day")
+		}
+		if (ignoreOrdinals || !weekDay.ordinal) {
+			return days.concat(matchingDays)
+		}
+		const { ordinal } = weekDay
+		const index = ordinal > 0 ? ordinal - 1 : matchingDays.length + ordinal
+		return matchingDays[index] ? days.concat(matchingDays[index]) : days
+	}, [])
+}
+
+function _isMonthAllowed(rule: RecurrenceRule, day: Dayjs) {
+	return !rule.byMonth || rule.byMonth.indexOf(day.month()) >= 0
+}
+
+function _isWeekDayValid(weekDay: RecurrenceWeekDay): boolean {
+	return weekDay?.isoWeekDay != null
+		&& _nullOrIntegerBetween(weekDay.isoWeekDay, 1, 7)
+		&& _nullOrIntegerBetween(weekDay.ordinal, -53, 53, false)
+}
+
+/* Indicate if a value is missing, or an integer within the boundaries */
+function _nullOrIntegerBetween(
+	value: number | undefined,
+	min: number,
+	max: number,
+	allowZero = true,
+): boolean {
+	return value == null
+		|| (Number.isInteger(value) && value >= min && value <= max && (allowZero || value !== 0))
+}
+
+/* Indicate if a list is missing, or only contains integers within the boundaries */
+function _nullOrIntegersBetween(
+	values: number[] | undefined,
+	min: number,
+	max: number,
+	allowZero = true,
+): boolean {
+	return values == null || (Array.isArray(values) && values.every((value) => (
+		value != null && _nullOrIntegerBetween(value, min, max, allowZero)
+	)))
+}
@@ -0,0 +1,182 @@
+import { Availability, getAvailability, getTimeSlotKey, indexTimeSlots } from "./availability"
+import { TimeSlotsFinderParameters } from "./time-slots"
+import { TimeSlotsFinderError } from "./errors"
+import { PooledTimeSlot, ResourceAssignmentStrategy, SkippedCalendarEvent, TimeSlot } from "./types"
+
+const ASSIGNMENT_STRATEGIES: string[] = [
+	ResourceAssignmentStrategy.roundRobin,
+	ResourceAssignmentStrategy.leastBooked,
+	ResourceAssignmentStrategy.priority,
+]
+
+export interface TimeSlotsFinderResource
+	extends Omit<
+		TimeSlotsFinderParameters,
+		"from" | "to" | "now" | "onSkippedEvent" | "onRejectedSlot" | "onDayExplained"
+	> {
+	/** The identifier of the resource, used to report who can take each slot. */
+	id: string
+}
+
+export interface ResourcePoolSearchParameters {
+	/**
+	 * The resources of the pool (e.g. practitioners), each with their own configuration and
+	 * calendars. Their order is the one used by the round-robin and priority strategies.
+	 */
+	resources: TimeSlotsFinderResource[]
+	/** The way a resource is suggested for each slot. Default value is round-robin. */
+	assignmentStrategy?: ResourceAssignmentStrategy
+	/** The resource assigned to the latest booking, for the round-robin strategy to go on. */
+	lastAssignedResourceId?: string
+	/**
+	 * The duration of the slots in minutes, overriding the global one of the configuration of each
+	 * resource. Default value is the one of each resource.
+	 */
+	timeSlotDuration?: number
+	/**
+	 * Slots can only start on minutes multiple of this value, in the time zone of each resource.
+	 * It overrides the global one of the configuration of each resource, if given.
+	 */
+	slotStartMinuteStep?: number
+	/** Called for each calendar event that cannot be used, with the reason why. */
+	onSkippedEvent?: (skippedEvent: SkippedCalendarEvent) => void
+	/** The date from which searching time slots. */
+	from: Date
+	/** The date to which searching time slots. */
+	to: Date
+	/**
+	 * The moment the search happens at, e.g. to look back at past availabilities. Default value is
+	 * now.
+	 */
+	now?: Date
+}
+
+/**
+ * Find the time slots where at least one resource of a pool is available: the slots a search for
+ * any of them alone finds. Each slot lists the resources which can take it, and the one it should
+ * be assigned to according to the assignment strategy. If the parameters or the configuration of a
+ * resource are invalid, an error will be thrown.
+ * @throws TimeSlotsFinderError
+ * @param {ResourcePoolSearchParameters} params
+ * @return {PooledTimeSlot[]}
+ */
+export function getAvailableTimeSlotsInResourcePool(
+	params: ResourcePoolSearchParameters,
+): PooledTimeSlot[] {
+	_checkResourcePoolSearchParameters(params)
+	const { resources } = params
+	const availabilities = resources.map((resource) => _getResourceAvailability(resource, params))
+	/* A resource can take a slot found for another one, wherever its own slots are */
+	const slotIndexes = availabilities.map(({ bookableSlots }) => indexTimeSlots(bookableSlots))
+	const slots = availabilities.reduce((poolSlots: TimeSlot[], { timeSlots }) => (
+		poolSlots.concat(timeSlots)
+	), [])
+	const assignmentOrder = _getAssignmentOrder(params, availabilities)
+	return _getDistinctSlots(slots).map((slot) => {
+		const key = getTimeSlotKey(slot)
+		const eligibleResources = resources
+			.filter((_, index) => slotIndexes[index][key])
+			.map(({ id }) => id)
+		return {
+			startAt: slot.startAt,
+			endAt: slot.endAt,
+			duration: slot.duration,
+			eligibleResources,
+			suggestedResource: assignmentOrder
+				.filter((id) => eligibleResources.indexOf(id) >= 0)[0],
+		}
+	})
+}
+
+function _checkResourcePoolSearchParameters(params: ResourcePoolSearchParameters): void {
+	const { resources, timeSlotDuration, slotStartMinuteStep, from, to } = params
+	if (!from || !to || from.getTime() > to.getTime()) {
+		throw new TimeSlotsFinderError("Invalid boundaries for the search")
+	}
+	if (timeSlotDuration != null && timeSlotDuration < 1) {
+		throw new TimeSlotsFinderError("Slot duration must be at least 1 minute")
+	}
+	if (slotStartMinuteStep != null && (slotStartMinuteStep < 1 || slotStartMinuteStep > 30)) {
+		throw new TimeSlotsFinderError("Slot start minute step must be contained between 1 and 30")
+	}
+	if (!Array.isArray(resources) || !resources.length) {
+		throw new TimeSlotsFinderError("A list of resources is expected")
+	}
+	resources.forEach((resource, index) => {
+		if (!resource?.id) {
+			throw new TimeSlotsFinderError(`Resource nº${index + 1} has no identifier`)
+		}
+		if (resources.findIndex(({ id }) => id === resource.id) !== index) {
+			throw new TimeSlotsFinderError(`Duplicate resource identifier: ${resource.id}`)
+		}
+	})
+	const { assignmentStrategy } = params
+	if (assignmentStrategy != null && ASSIGNMENT_STRATEGIES.indexOf(assignmentStrategy) < 0) {
+		throw new TimeSlotsFinderError(`Invalid assignment strategy: ${assignmentStrategy}`)
+	}
+}
+
+function _getResourceAvailability(
+	resource: TimeSlotsFinderResource,
+	params: ResourcePoolSearchParameters,
+): Availability {
+	const { timeSlotDuration, slotStartMinuteStep, from, to, now, onSkippedEvent } = params
+	try {
+		return getAvailability({
+			...resource,
+			from,
+			to,
+			now,
+			onSkippedEvent: onSkippedEvent && ((skippedEvent) => onSkippedEvent({
+				...skippedEvent,
+				resourceId: resource.id,
+			})),
+		}, { timeSlotDuration, slotStartMinuteStep }, true)
+	} catch (error) {
+		throw new TimeSlotsFinderError(`Resource ${resource.id}: ${(error as Error).message}`)
+	}
+}
+
+/* Remove the slots found for several resources, and sort them */
+function _getDistinctSlots(slots: TimeSlot[]): TimeSlot[] {
+	return slots
+		.slice()
+		.sort((a, b) => (
+			(a.startAt.getTime() - b.startAt.getTime()) || (a.endAt.getTime() - b.endAt.getTime())
+		))
+		.filter((slot, index, sortedSlots) => (
+			index === 0 || getTimeSlotKey(slot) !== getTimeSlotKey(sortedSlots[index - 1])
+		))
+}
+
+/*
+ * Order the resources by preference: the suggested resource of a slot is the first eligible one.
+ * The pool order settles ties between the least booked resources.
+ */
+function _getAssignmentOrder(
+	params: ResourcePoolSearchParameters,
+	availabilities: Availability[],
+): string[] {
+	const { resources, from, to } = params
+	const ids = resources.map(({ id }) => id)
+	switch (params.assignmentStrategy) {
+	case ResourceAssignmentStrategy.priority:
+		return ids
+	case ResourceAssignmentStrategy.leastBooked: {
+		const bookings = availabilities.map(({ calendarEvents }) => calendarEvents
+			.filter((event) => (
+				event.startAt.valueOf() < to.getTime() && event.endAt.valueOf() > from.getTime()
+			))
+			.length)
+		return ids
+			.map((id, index) => ({ id, index }))
+			.sort((a, b) => (bookings[a.index] - bookings[b.index]) || (a.index - b.index))
+			.map(({ id }) => id)
+	}
+	default: {
+		/* Start right after the last assigned resource, if any */
+		const lastIndex = ids.indexOf(params.lastAssignedResourceId ?? "")
+		return ids.slice(lastIndex + 1).concat(ids.slice(0, lastIndex + 1))
+	}
+	}
+}
@@ -0,0 +1,139 @@
+import dayjs, { Dayjs } from "dayjs"
+
+import { _mergeOverlappingShifts } from "./config-management"
+import { getSlotSettings, haveSameSlotSettings } from "./slot-settings"
+import {
+	AvailabilityOverrideMode,
+	AvailablePeriod,
+	DayjsPeriod,
+	Shift,
+	TimeSlotsFinderConfiguration,
+} from "./types"
+
+/**
+ * A shift of a given day, with the shift of the configuration it comes from. Its boundaries are
+ * limited to the ones of the search, unlike the ones of its occurrence.
+ */
+export interface SearchShift extends DayjsPeriod {
+	shift: Shift
+	occurrence: DayjsPeriod
+}
+
+/**
+ * Get the shifts of a day: the weekly shifts of its weekday, unless an availability override
+ * covering its date adds shifts to them or replaces them. Weekly shifts inherit the slot settings
+ * of their available period.
+ * @param {TimeSlotsFinderConfiguration} configuration A valid configuration.
+ * @param {Dayjs} day A moment of the day, in the time zone of the configuration.
+ * @returns {Shift[]}
+ */
+export function getShiftsOfDay(configuration: TimeSlotsFinderConfiguration, day: Dayjs): Shift[] {
+	const availablePeriod = configuration.availablePeriods
+		.find(({ isoWeekDay }) => isoWeekDay === day.isoWeekday())
+	const weekDayShifts = (availablePeriod?.shifts ?? []).map((shift) => ({
+		...getSlotSettings(availablePeriod as AvailablePeriod),
+		...shift,
+	}))
+	/* Dates in the `YYYY-MM-DD` format can be compared as strings */
+	const date = day.format("YYYY-MM-DD")
+	const override = (configuration.availabilityOverrides ?? []).find(({ startDate, endDate }) => (
+		startDate <= date && date <= (endDate ?? startDate)
+	))
+	if (!override) {
+		return weekDayShifts
+	}
+	if (override.mode === AvailabilityOverrideMode.add) {
+		/* Added shifts may extend weekly ones they are adjacent to */
+		return _mergeOverlappingShifts(weekDayShifts.concat(override.shifts))
+	}
+	return override.shifts
+}
+
+/**
+ * Get the moments a shift starts and ends at on a given day. Local times are converted with the
+ * offset of their own moment, which may differ from the one of the day on daylight saving time
+ * changes.
+ * @param {Dayjs} day A moment of the day, in the time zone of the configuration.
+ * @param {Shift} shift A valid shift.
+ * @param {string} timeZone The time zone of the configuration.
+ * @returns {DayjsPeriod}
+ */
+export function getShiftOccurrence(day: Dayjs, shift: Shift, timeZone: string): DayjsPeriod {
+	const startDate = day.format("YYYY-MM-DD")
+	/* Overnight shifts end the day after */
+	const endDate = shift.endTime < shift.startTime
+		? day.add(1, "day").format("YYYY-MM-DD")
+		: startDate
+	return {
+		startAt: dayjs.tz(`${startDate} ${shift.startTime}`, timeZone),
+		endAt: dayjs.tz(`${endDate} ${shift.endTime}`, timeZone),
+	}
+}
+
+/**
+ * Merge the overlapping shifts of a search, or the adjacent ones producing the same slots, e.g. an
+ * overnight shift and the morning shift of the next day. Merged shifts keep the configuration of
+ * the first one.
+ * @param {SearchShift[]} shifts The shifts of the search.
+ * @returns {SearchShift[]}
+ */
+export function mergeSearchShifts(shifts: SearchShift[]): SearchShift[] {
+	return shifts
+		.sort((a, b) => a.startAt.valueOf() - b.startAt.valueOf())
+		.reduce((mergedShifts: SearchShift[], shift) => {
+			const previous = mergedShifts[mergedShifts.length - 1]
+			const isOverlapping = previous && (
+				shift.startAt.valueOf() < previous.endAt.valueOf()
+				|| (
+					shift.startAt.valueOf() === previous.endAt.valueOf()
+					&& haveSameSlotSettings(previous.shift, shift.shift)
+				)
+			)
+			if (isOverlapping) {
+				previous.endAt = dayjs.max(previous.endAt, shift.endAt)
+				previous.occurrence = {
+					startAt: previous.occurrence.startAt,
+					endAt: dayjs.max(previous.occurrence.endAt, shift.occurrence.endAt),
+				}
+			} else {
+				mergedShifts.push(shift)
+			}
+			return mergedShifts
+		}, [])
+}
+
+/**
+ * Return the shifts of the search, day after day, their boundaries being limited to the global
+ * ones. Overlapping or adjacent shifts of consecutive days (e.g. an overnight shift and a morning
+ * one) are merged, so that slots can span midnight.
+ */
+export function getSearchShifts(
+	configuration: TimeSlotsFinderConfiguration,
+	firstFromMoment: Dayjs,
+	lastToMoment: Dayjs,
+): SearchShift[] {
+	const shifts: SearchShift[] = []
+	/* Overnight shifts of the day before the search may end during it */
+	let fromMoment = firstFromMoment.subtract(1, "day")
+	/* Time zone aware comparisons being slow, timestamps are compared */
+	while (fromMoment.valueOf() < lastToMoment.valueOf()) {
+		/* Go through each shift of the day: weekly ones, or the ones of an override */
+		getShiftsOfDay(configuration, fromMoment).forEach((shift: Shift) => {
+			const occurrence = getShiftOccurrence(fromMoment, shift, configuration.timeZone)
+			const { startAt, endAt } = occurrence
+			/* Ensure that shift boundaries don't exceed global boundaries */
+			const partialFrom = startAt.valueOf() > firstFromMoment.valueOf()
+				? startAt
+				: firstFromMoment
+			const partialTo = endAt.valueOf() < lastToMoment.valueOf() ? endAt : lastToMoment
+			if (partialFrom.valueOf() > partialTo.valueOf()) {
+				/* That may happen when shift boundaries exceed global ones */
+				return
+			}
+			shifts.push({ startAt: partialFrom, endAt: partialTo, shift, occurrence })
+		})
+		/* Go one day forward: all shifts for this day has been processed (if any) */
+		fromMoment = fromMoment.add(1, "day").startOf("day")
+	}
+	return mergeSearchShifts(shifts)
+}
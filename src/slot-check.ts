@@ -0,0 +1,272 @@
+import dayjs from "dayjs"
+
+import {
+	_checkSearchParameters,
+	_getCalendarEvents,
+	TimeSlotsFinderParameters,
+} from "./time-slots"
+import { applySlotCapacity } from "./capacity"
+import { applyBookingQuotas, QuotaLimits } from "./quotas"
+import { padEvents } from "./event-padding"
+import { getUnavailablePeriodsAsEvents } from "./unavailable-periods"
+import { isOnSlotGrid } from "./slot-generation"
+import { getShiftConfiguration } from "./slot-settings"
+import { toExtractedPeriod } from "./events-extractors/extractor"
+import { getSearchShifts, SearchShift } from "./shifts"
+import { DayjsPeriod, ExtractedPeriod, TimeSlot, TimeSlotsFinderConfiguration } from "./types"
+
+/** The rules a proposed slot can break. */
+export enum SlotViolationType {
+	/** The slot isn't within a shift. */
+	outsideShifts = "outsideShifts",
+	/** The slot doesn't last the duration of the slots of its shift. */
+	wrongDuration = "wrongDuration",
+	/** The slot doesn't start on a minute step, or on the grid of anchored slots. */
+	offStepGrid = "offStepGrid",
+	/** The slot, or the free time before it, starts sooner than `minTimeBeforeFirstSlot`. */
+	tooSoon = "tooSoon",
+	/** The slot ends after the last day allowed by `maxDaysBeforeLastSlot`. */
+	tooFar = "tooFar",
+	/** The slot, or the free time around it, overlaps an unavailable period. */
+	unavailablePeriod = "unavailablePeriod",
+	/** The slot overlaps a calendar event. */
+	overlapsEvent = "overlapsEvent",
+	/** A calendar event, or its padding, takes the free time required before the slot. */
+	breaksTimeBefore = "breaksTimeBefore",
+	/** A calendar event, or its padding, takes the free time required after the slot. */
+	breaksTimeAfter = "breaksTimeAfter",
+	/** The slot of a group session has no seat left. */
+	full = "full",
+	/** Booking the slot would exceed a quota. */
+	quotaExceeded = "quotaExceeded",
+}
+
+/** A rule a proposed slot breaks. */
+export interface SlotViolation {
+	type: SlotViolationType
+	/** The reason why the slot cannot be booked. */
+	reason: string
+	/** The calendar event or the occurrence of the unavailable period involved, if any. */
+	event?: ExtractedPeriod
+	/** For `quotaExceeded`, the quota booking the slot would exceed. */
+	quota?: QuotaLimits
+}
+
+/** Whether a proposed slot can be booked, with the rules it breaks. */
+export interface SlotAvailability {
+	isAvailable: boolean
+	/** The rules the slot breaks: none when it is available. */
+	violations: SlotViolation[]
+}
+
+export interface SlotAvailabilityParameters
+	extends Omit<TimeSlotsFinderParameters, "from" | "to" | "onRejectedSlot" | "onDayExplained"> {
+	/** The date the proposed slot starts at. */
+	startAt: Date
+	/** The date the proposed slot ends at. */
+	endAt: Date
+}
+
+/* A proposed slot, with the shift it is within and the settings of its slots */
+interface SlotContext {
+	slot: DayjsPeriod
+	now?: Date
+	searchShift?: SearchShift
+	configuration: TimeSlotsFinderConfiguration
+}
+
+/**
+ * Check whether a proposed slot can be booked under the current rules, e.g. before saving a
+ * booking. Unlike searching the slots and looking for a matching one, any start time on the minute
+ * step is accepted, wherever the previous slots of the shift are. If the configuration provided is
+ * invalid, an error will be thrown.
+ * @throws TimeSlotsFinderError
+ * @param {SlotAvailabilityParameters} params
+ * @return {SlotAvailability}
+ */
+export function checkSlotAvailability(params: SlotAvailabilityParameters): SlotAvailability {
+	const { startAt, endAt, now } = params
+	const configuration = _checkSearchParameters(params.configuration, startAt, endAt, now)
+	const slot = {
+		startAt: dayjs(startAt).tz(configuration.timeZone),
+		endAt: dayjs(endAt).tz(configuration.timeZone),
+	}
+	/* Shifts are limited to the slot: the one it is within keeps its boundaries */
+	const searchShift = getSearchShifts(configuration, slot.startAt, slot.endAt).find((shift) => (
+		shift.startAt.valueOf() === startAt.getTime() && shift.endAt.valueOf() === endAt.getTime()
+	))
+	const context = {
+		slot,
+		now,
+		searchShift,
+		configuration: searchShift
+			? getShiftConfiguration(configuration, searchShift.shift)
+			: configuration,
+	}
+	const violations = [
+		..._checkShift(context),
+		..._checkSearchLimits(context),
+		..._checkUnavailablePeriods(context),
+		..._checkCalendarEvents(params, context),
+	]
+	return { isAvailable: !violations.length, violations }
+}
+
+/* The slot must be within a shift, last its duration and start on its grid */
+function _checkShift({ slot, searchShift, configuration }: SlotContext): SlotViolation[] {
+	if (!searchShift) {
+		return [{ type: SlotViolationType.outsideShifts, reason: "The slot is not within a shift" }]
+	}
+	const violations: SlotViolation[] = []
+	if (slot.endAt.valueOf() - slot.startAt.valueOf() !== configuration.timeSlotDuration * 60000) {
+		violations.push({
+			type: SlotViolationType.wrongDuration,
+			reason: `The slots of the shift last ${configuration.timeSlotDuration} minutes`,
+		})
+	}
+	if (!isOnSlotGrid(slot.startAt, configuration, searchShift.occurrence.startAt)) {
+		violations.push({
+			type: SlotViolationType.offStepGrid,
+			reason: "The slot does not start on the grid of the slots of the shift",
+		})
+	}
+	return violations
+}
+
+/* The slot must be between `minTimeBeforeFirstSlot` and `maxDaysBeforeLastSlot` from now */
+function _checkSearchLimits({ slot, now, configuration }: SlotContext): SlotViolation[] {
+	const { maxDaysBeforeLastSlot, timeZone } = configuration
+	const nowMoment = dayjs(now).tz(timeZone)
+	const violations: SlotViolation[] = []
+	/* Like searches, the free time before the slot cannot start before now */
+	const firstStartAt = nowMoment
+		.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
+		.add(configuration.minTimeBeforeFirstSlot ?? 0, "minute")
+	if (slot.startAt.valueOf() < firstStartAt.valueOf()) {
+		violations.push({ type: SlotViolationType.tooSoon, reason: "The slot starts too soon" })
+	}
+	const lastEndAt = maxDaysBeforeLastSlot
+		? nowMoment.add(maxDaysBeforeLastSlot, "day").endOf("day")
+		: null
+	if (lastEndAt && slot.endAt.valueOf() > lastEndAt.valueOf()) {
+		violations.push({ type: SlotViolationType.tooFar, reason: "The slot ends too late" })
+	}
+	return violations
+}
+
+/* Unavailable periods must not overlap the slot and the free time around it */
+function _checkUnavailablePeriods({ slot, now, configuration }: SlotContext): SlotViolation[] {
+	const window = _getFreeTimeWindow(slot, configuration)
+	return getUnavailablePeriodsAsEvents(
+		configuration.unavailablePeriods ?? [],
+		configuration.timeZone,
+		window,
+		now,
+	)
+		.filter((period) => _areOverlapping(period, window))
+		.map((period) => ({
+			type: SlotViolationType.unavailablePeriod,
+			reason: "The slot or the free time around it overlaps an unavailable period",
+			event: toExtractedPeriod(period),
+		}))
+}
+
+/* Calendar events block the slot and the free time around it, or take seats in group sessions */
+function _checkCalendarEvents(
+	params: SlotAvailabilityParameters,
+	context: SlotContext,
+): SlotViolation[] {
+	const { slot, searchShift, configuration } = context
+	const calendarEvents = _getCalendarEvents(
+		/* The events involved are reported with their details */
+		{ ...params, eventDetails: true },
+		configuration,
+		slot.startAt,
+		slot.endAt,
+	)
+	const capacity = searchShift?.shift.capacity ?? configuration.capacity
+	const violations = capacity == null
+		? _checkBusyEvents(calendarEvents, context)
+		: _checkSeats(calendarEvents, slot, capacity)
+	if (searchShift) {
+		applyBookingQuotas(
+			[_toTimeSlot(slot)],
+			calendarEvents,
+			{ configuration, shift: searchShift },
+			({ reason, quota }) => violations.push({
+				type: SlotViolationType.quotaExceeded,
+				reason,
+				quota,
+			}),
+		)
+	}
+	return violations
+}
+
+/* Events overlap the slot, or their padding the free time around it */
+function _checkBusyEvents(
+	calendarEvents: DayjsPeriod[],
+	{ slot, configuration }: SlotContext,
+): SlotViolation[] {
+	const window = _getFreeTimeWindow(slot, configuration)
+	const paddedEvents = padEvents(calendarEvents, configuration.eventPadding)
+	return calendarEvents.reduce((violations: SlotViolation[], calendarEvent, index) => {
+		const event = toExtractedPeriod(calendarEvent)
+		if (_areOverlapping(calendarEvent, slot)) {
+			return violations.concat({
+				type: SlotViolationType.overlapsEvent,
+				reason: "The slot overlaps a calendar event",
+				event,
+			})
+		}
+		if (!_areOverlapping(paddedEvents[index], window)) {
+			return violations
+		}
+		return violations.concat(calendarEvent.startAt.valueOf() < slot.startAt.valueOf()
+			? {
+				type: SlotViolationType.breaksTimeBefore,
+				reason: "A calendar event takes the free time required before the slot",
+				event,
+			}
+			: {
+				type: SlotViolationType.breaksTimeAfter,
+				reason: "A calendar event takes the free time required after the slot",
+				event,
+			})
+	}, [])
+}
+
+function _checkSeats(
+	calendarEvents: DayjsPeriod[],
+	slot: DayjsPeriod,
+	capacity: number,
+): SlotViolation[] {
+	const [timeSlot] = applySlotCapacity([_toTimeSlot(slot)], calendarEvents, capacity, true)
+	return timeSlot.isFull
+		? [{ type: SlotViolationType.full, reason: `The ${capacity} seats of the slot are taken` }]
+		: []
+}
+
+/* The slot with the free time required around it */
+function _getFreeTimeWindow(
+	slot: DayjsPeriod,
+	configuration: TimeSlotsFinderConfiguration,
+): DayjsPeriod {
+	return {
+		startAt: slot.startAt.subtract(configuration.minAvailableTimeBeforeSlot ?? 0, "minute"),
+		endAt: slot.endAt.add(configuration.minAvailableTimeAfterSlot ?? 0, "minute"),
+	}
+}
+
+/* Time zone aware comparisons being slow, timestamps are compared */
+function _areOverlapping(a: DayjsPeriod, b: DayjsPeriod): boolean {
+	return a.startAt.valueOf() < b.endAt.valueOf() && a.endAt.valueOf() > b.startAt.valueOf()
+}
+
+function _toTimeSlot({ startAt, endAt }: DayjsPeriod): TimeSlot {
+	return {
+		startAt: startAt.toDate(),
+		endAt: endAt.toDate(),
+		duration: (endAt.valueOf() - startAt.valueOf()) / 60000,
+	}
+}
@@ -0,0 +1,135 @@
+import { Dayjs } from "dayjs"
+
+import { TimeSlotsFinderError } from "./errors"
+import { TimeSlot, TimeSlotsFinderConfiguration } from "./types"
+
+/** The ways slots are placed in the free time of shifts. */
+export enum SlotGenerationMode {
+	/** Each slot starts after the previous one and the free time after it: slots never overlap. */
+	backToBack = "backToBack",
+	/** A slot starts at every minute step where it fits: slots overlap, giving every start time. */
+	rolling = "rolling",
+	/**
+	 * Slots follow a grid starting with the shift, one every slot duration: calendar events don't
+	 * shift the following slots, the slots they overlap being left out.
+	 */
+	anchored = "anchored",
+}
+
+/**
+ * Check the slot generation mode of a configuration. Throws if not valid.
+ * @param {SlotGenerationMode} mode The mode of the configuration, if any.
+ */
+export function checkSlotGenerationMode(mode?: SlotGenerationMode): void {
+	if (mode != null && Object.keys(SlotGenerationMode).indexOf(mode) < 0) {
+		throw new TimeSlotsFinderError(`Invalid slot generation mode: ${mode}`)
+	}
+}
+
+/**
+ * Get the first moment a slot search can start at from a given moment: the moment the free time
+ * before a slot starts, the slot itself starting on a minute step (or on the grid of anchored
+ * slots).
+ * @param {Dayjs} moment The moment from which searching.
+ * @param {TimeSlotsFinderConfiguration} configuration The configuration of the shift.
+ * @param {Dayjs} shiftStart The moment the occurrence of the shift starts, anchoring the grid.
+ * @returns {Dayjs}
+ */
+export function getNextSearchMoment(
+	moment: Dayjs,
+	configuration: TimeSlotsFinderConfiguration,
+	shiftStart: Dayjs,
+): Dayjs {
+	/* Round up to the next minute if second value is not 0 */
+	const nextMoment = moment.second() !== 0
+		? moment.startOf("minute").add(1, "minute")
+		: moment.clone()
+	const slotStartAt = nextMoment.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
+	const minuteToAdd = _getMinutesToNextStart(slotStartAt, configuration, shiftStart)
+	return nextMoment.add(minuteToAdd, "minute").millisecond(0)
+}
+
+/**
+ * Indicate if a slot can start at a moment: on a minute step, or on the grid of anchored slots.
+ * @param {Dayjs} slotStartAt The moment the slot starts.
+ * @param {TimeSlotsFinderConfiguration} configuration The configuration of the shift.
+ * @param {Dayjs} shiftStart The moment the occurrence of the shift starts, anchoring the grid.
+ * @returns {boolean}
+ */
+export function isOnSlotGrid(
+	slotStartAt: Dayjs,
+	configuration: TimeSlotsFinderConfiguration,
+	shiftStart: Dayjs,
+): boolean {
+	return slotStartAt.valueOf() % 60000 === 0
+		&& _getMinutesToNextStart(slotStartAt, configuration, shiftStart) === 0
+}
+
+/**
+ * Create the slot found at a search moment, with the moment the search for the next one starts
+ * at, depending on the slot generation mode.
+ * @param {Dayjs} searchMoment The moment the free time before the slot starts.
+ * @param {TimeSlotsFinderConfiguration} configuration The configuration of the shift.
+ * @returns {{ newSearchMoment: Dayjs, timeSlot: TimeSlot }}
+ */
+export function createSlot(
+	searchMoment: Dayjs,
+	configuration: TimeSlotsFinderConfiguration,
+): { newSearchMoment: Dayjs, timeSlot: TimeSlot } {
+	const startAt = searchMoment
+		.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
+	const endAt = startAt.add(configuration.timeSlotDuration, "minute")
+	const timeSlot = {
+		startAt: startAt.toDate(),
+		endAt: endAt.toDate(),
+		/* Minutes are added as milliseconds, even across offset changes */
+		duration: configuration.timeSlotDuration,
+	}
+	const mode = configuration.slotGenerationMode ?? SlotGenerationMode.backToBack
+	if (mode !== SlotGenerationMode.backToBack) {
+		/* The next start time (step or grid) is searched from the next minute */
+		return { newSearchMoment: searchMoment.add(1, "minute"), timeSlot }
+	}
+	/**
+	 * We should start searching after just created slot (including free time after it) but before
+	 * next one free time before it (since the search algorithm take it in account).
+	 */
+	const minutesBeforeNextSearch = Math.max(
+		(configuration.minAvailableTimeAfterSlot ?? 0)
+		- (configuration.minAvailableTimeBeforeSlot ?? 0),
+		0
+	)
+	return {
+		newSearchMoment: endAt
+			.add(minutesBeforeNextSearch, "minute"),
+		timeSlot
+	}
+}
+
+function _getMinutesToNextStart(
+	slotStartAt: Dayjs,
+	configuration: TimeSlotsFinderConfiguration,
+	shiftStart: Dayjs,
+): number {
+	return configuration.slotGenerationMode === SlotGenerationMode.anchored
+		? _getMinutesToGrid(slotStartAt, configuration.timeSlotDuration, shiftStart)
+		: _getMinutesToStep(slotStartAt, configuration.slotStartMinuteStep ?? 5)
+}
+
+/* Slot starts are multiple of the step, in minutes of the hour */
+function _getMinutesToStep(slotStartAt: Dayjs, step: number): number {
+	return (step - (slotStartAt.minute() % step)) % step
+}
+
+/* Timestamps keep the grid regular across daylight saving time changes */
+function _getMinutesToGrid(
+	slotStartAt: Dayjs,
+	timeSlotDuration: number,
+	shiftStart: Dayjs,
+): number {
+	const elapsedMinutes = Math.floor((slotStartAt.valueOf() - shiftStart.valueOf()) / 60000)
+	if (elapsedMinutes <= 0) {
+		return -elapsedMinutes
+	}
+	return (timeSlotDuration - (elapsedMinutes % timeSlotDuration)) % timeSlotDuration
+}
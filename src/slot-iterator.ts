@@ -0,0 +1,134 @@
+import dayjs from "dayjs"
+
+import {
+	_checkSearchParameters,
+	_computeBoundaries,
+	_getTimeSlotsOfShifts,
+	_parseCalendars,
+	CalendarEventsSource,
+	TimeSlotsFinderParameters,
+} from "./time-slots"
+import { getSearchShifts, SearchShift } from "./shifts"
+import { TimeSlotsFinderError } from "./errors"
+import { TimeSlot, TimeSlotsFinderConfiguration } from "./types"
+
+export interface TimeSlotsIterationParameters
+	extends Omit<TimeSlotsFinderParameters, "from" | "to" | "onDayExplained"> {
+	/** The date from which searching time slots. Default value is now. */
+	from?: Date
+	/**
+	 * The date to which searching time slots. Default value is the end of the last day allowed by
+	 * `maxDaysBeforeLastSlot`, one of them being required.
+	 */
+	to?: Date
+	/** The maximum number of slots to iterate over. */
+	limit?: number
+}
+
+/**
+ * Iterate over the available time slots of a calendar, in order. The search goes forward in
+ * windows of growing size (a day, then two, four...). The calendars are parsed once, when the
+ * first window needs their events, then only the events around the shifts of a window are
+ * extracted when the iteration reaches it: stopping early (e.g. with `limit`) skips expanding the
+ * recurrences of the rest of the calendar. If the parameters provided are invalid, an error will
+ * be thrown right away.
+ * @throws TimeSlotsFinderError
+ * @param {TimeSlotsIterationParameters} params
+ * @return {Generator<TimeSlot>}
+ */
+export function iterateAvailableTimeSlotsInCalendar(
+	params: TimeSlotsIterationParameters,
+): Generator<TimeSlot, void, undefined> {
+	const { configuration, now, from = now ?? new Date() } = params
+	const usedConfig = _checkSearchParameters(configuration, from, params.to ?? from, now)
+	return _iterateTimeSlotsOfSearch({ ...params, configuration: usedConfig })
+}
+
+/**
+ * Iterate over the available time slots of a search whose configuration is already checked.
+ * Shared with `TimeSlotsFinder`, whose calendar events come from a source.
+ */
+export function _iterateTimeSlotsOfSearch(
+	params: TimeSlotsIterationParameters,
+	eventsSource?: CalendarEventsSource,
+): Generator<TimeSlot, void, undefined> {
+	/* The iteration goes on at the moment it started at */
+	const { configuration, now = new Date(), from = now, limit = Infinity } = params
+	_checkLimit(limit)
+	const to = params.to ?? _getLastDayEnd(configuration, now)
+	const { firstFromMoment, lastToMoment } = _computeBoundaries(from, to, configuration, now)
+	const searchShifts = getSearchShifts(configuration, firstFromMoment, lastToMoment)
+	return _iterateTimeSlots({ ...params, now }, searchShifts, limit, eventsSource)
+}
+
+/**
+ * Find the first available time slot of a calendar from a date (now by default), until `to` or
+ * the last day allowed by `maxDaysBeforeLastSlot`. Returns null if there is none.
+ * @throws TimeSlotsFinderError
+ * @param {TimeSlotsIterationParameters} params
+ * @return {TimeSlot | null}
+ */
+export function findNextAvailableSlot(
+	params: Omit<TimeSlotsIterationParameters, "limit">,
+): TimeSlot | null {
+	const result = iterateAvailableTimeSlotsInCalendar({ ...params, limit: 1 }).next()
+	return result.done ? null : result.value
+}
+
+/* Generators only run when iterated: the parameters are checked before */
+function* _iterateTimeSlots(
+	params: TimeSlotsIterationParameters,
+	searchShifts: SearchShift[],
+	limit: number,
+	eventsSource?: CalendarEventsSource,
+): Generator<TimeSlot, void, undefined> {
+	let count = 0
+	let batchDays = 1
+	let shiftIndex = 0
+	let calendarEvents = eventsSource
+	while (shiftIndex < searchShifts.length && count < limit) {
+		const batch = _getShiftBatch(searchShifts, shiftIndex, batchDays)
+		/* The calendars are parsed once, each window only expanding their recurrences */
+		calendarEvents = calendarEvents ?? _parseCalendars(params, params.configuration)
+		const timeSlots = _getTimeSlotsOfShifts(
+			params,
+			params.configuration,
+			batch,
+			calendarEvents,
+		)
+		for (let i = 0; i < timeSlots.length && count < limit; i += 1) {
+			count += 1
+			yield timeSlots[i]
+		}
+		shiftIndex += batch.length
+		batchDays *= 2
+	}
+}
+
+function _checkLimit(limit: number) {
+	if (limit !== Infinity && (!Number.isInteger(limit) || limit < 0)) {
+		throw new TimeSlotsFinderError("The limit of slots must be an integer of at least 0")
+	}
+}
+
+/* Without `to`, the search goes on as far as `maxDaysBeforeLastSlot` allows */
+function _getLastDayEnd(configuration: TimeSlotsFinderConfiguration, now: Date): Date {
+	if (!configuration.maxDaysBeforeLastSlot) {
+		throw new TimeSlotsFinderError("A search end is required: `to` or `maxDaysBeforeLastSlot`")
+	}
+	return dayjs(now)
+		.tz(configuration.timeZone)
+		.add(configuration.maxDaysBeforeLastSlot, "day")
+		.endOf("day")
+		.toDate()
+}
+
+/* The shifts starting during a given number of days from the first one of the batch */
+function _getShiftBatch(searchShifts: SearchShift[], from: number, days: number): SearchShift[] {
+	const batchEnd = searchShifts[from].startAt.add(days, "day").valueOf()
+	let to = from + 1
+	while (to < searchShifts.length && searchShifts[to].startAt.valueOf() < batchEnd) {
+		to += 1
+	}
+	return searchShifts.slice(from, to)
+}
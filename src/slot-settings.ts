@@ -0,0 +1,70 @@
+import { Shift, SlotSettings, TimeSlotsFinderConfiguration } from "./types"
+
+const SLOT_SETTINGS: (keyof SlotSettings)[] = [
+	"timeSlotDuration",
+	"slotStartMinuteStep",
+	"minAvailableTimeBeforeSlot",
+	"minAvailableTimeAfterSlot",
+]
+
+/**
+ * Pick the slot settings defined by an available period or a shift.
+ * @param {SlotSettings} source The available period or the shift.
+ * @returns {SlotSettings}
+ */
+export function getSlotSettings(source: SlotSettings): SlotSettings {
+	return SLOT_SETTINGS.reduce((settings: SlotSettings, key) => (
+		source[key] == null ? settings : { ...settings, [key]: source[key] }
+	), {})
+}
+
+/**
+ * Indicate if two shifts produce the same slots and share their quota, in which case they can be
+ * merged when adjacent.
+ * @param {Shift} a A shift.
+ * @param {Shift} b Another shift.
+ * @returns {boolean}
+ */
+export function haveSameSlotSettings(a: Shift, b: Shift): boolean {
+	return SLOT_SETTINGS.every((key) => a[key] === b[key])
+		&& a.capacity === b.capacity
+		&& a.quota?.maxEvents === b.quota?.maxEvents
+		&& a.quota?.maxBookedMinutes === b.quota?.maxBookedMinutes
+}
+
+/**
+ * Get the configuration used to search the slots of a shift: its settings override the global ones.
+ * @param {TimeSlotsFinderConfiguration} configuration The configuration of the search.
+ * @param {Shift} shift A shift, having the settings of its available period.
+ * @returns {TimeSlotsFinderConfiguration}
+ */
+export function getShiftConfiguration(
+	configuration: TimeSlotsFinderConfiguration,
+	shift: Shift,
+): TimeSlotsFinderConfiguration {
+	return { ...configuration, ...getSlotSettings(shift) }
+}
+
+/**
+ * Get the longest free time a slot of the configuration needs, including the time before and
+ * after it, whatever the shift producing it.
+ * @param {TimeSlotsFinderConfiguration} configuration A valid configuration.
+ * @returns {number}
+ */
+export function getMaxTimeWindowNeeded(configuration: TimeSlotsFinderConfiguration): number {
+	const shifts = configuration.availablePeriods.reduce((allShifts: Shift[], period) => (
+		allShifts.concat(period.shifts.map((shift) => ({ ...getSlotSettings(period), ...shift })))
+	), [])
+	const overrideShifts = (configuration.availabilityOverrides ?? [])
+		.reduce((allShifts: Shift[], override) => allShifts.concat(override.shifts), [])
+	return shifts.concat(overrideShifts).reduce((max, shift) => {
+		const shiftConfiguration = getShiftConfiguration(configuration, shift)
+		return Math.max(max, _getTimeWindowNeeded(shiftConfiguration))
+	}, _getTimeWindowNeeded(configuration))
+}
+
+function _getTimeWindowNeeded(configuration: TimeSlotsFinderConfiguration): number {
+	return (configuration.minAvailableTimeBeforeSlot ?? 0)
+		+ configuration.timeSlotDuration
+		+ (configuration.minAvailableTimeAfterSlot ?? 0)
+}
@@ -0,0 +1,243 @@
+import { Dayjs } from "dayjs"
+
+import {
+	_checkSearchBoundaries,
+	_checkSearchConfiguration,
+	_parseCalendars,
+	_searchTimeSlots,
+	CalendarEventsSource,
+	TimeSlotsFinderParameters,
+} from "./time-slots"
+import { _iterateTimeSlotsOfSearch } from "./slot-iterator"
+import { _checkSlotSettings, _checkUnavailablePeriods } from "./config-management"
+import { getSlotSettings } from "./slot-settings"
+import { convertExtractedPeriod } from "./events-extractors/extractor"
+import { RejectedTimeSlot } from "./quotas"
+import { TimeSlotsFinderError } from "./errors"
+import { DatePeriod, DayjsPeriod, ExtractedPeriod, SlotSettings, TimeSlot } from "./types"
+
+/* A moment of a leap year: periods without years are then checked by each search, with its `now` */
+const LEAP_YEAR_MOMENT = new Date("2020-01-01T00:00:00.000Z")
+
+/** The calendars and the configuration a `TimeSlotsFinder` searches with. */
+export type TimeSlotsFinderOptions =
+	Omit<TimeSlotsFinderParameters, "from" | "to" | "now" | "onDayExplained">
+
+/** A search of a `TimeSlotsFinder`. Its slot settings override the global ones. */
+export interface TimeSlotsFinderQuery extends SlotSettings {
+	/** The date from which searching time slots. */
+	from: Date
+	/** The date to which searching time slots. */
+	to: Date
+	/**
+	 * The moment the search happens at, e.g. to find the slots which were offered at some point in
+	 * the past. Default value is now.
+	 */
+	now?: Date
+	/** Called for each slot which is not offered since booking it would exceed a quota. */
+	onRejectedSlot?: (rejectedSlot: RejectedTimeSlot) => void
+}
+
+/** An iteration over the available time slots of a `TimeSlotsFinder`. */
+export interface TimeSlotsFinderIterationQuery extends Omit<TimeSlotsFinderQuery, "from" | "to"> {
+	/** The date from which searching time slots. Default value is `now`. */
+	from?: Date
+	/**
+	 * The date to which searching time slots. Default value is the end of the last day allowed by
+	 * `maxDaysBeforeLastSlot`, one of them being required.
+	 */
+	to?: Date
+	/** The maximum number of slots to iterate over. */
+	limit?: number
+}
+
+/**
+ * Search the available time slots of the same calendars many times, e.g. for different ranges
+ * and durations. The configuration is checked once, when building the finder, except the dates of
+ * unavailable periods without years: each search checks them in the year of its `now`. The
+ * calendars are parsed once, when a search first needs their events, which are then extracted
+ * again (expanding their recurrences) only when a search goes beyond the window already extracted.
+ * Busy events can be added or removed afterwards, e.g. when a slot gets booked or a booking is
+ * cancelled, without parsing the calendars again.
+ */
+export class TimeSlotsFinder {
+
+	/* The calendars and the checked configuration, with merged shifts */
+	private readonly options: TimeSlotsFinderOptions
+
+	/* The parsed calendars, the events extracted from them, and the window of these events */
+	private parsedCalendars: CalendarEventsSource | null = null
+
+	private calendarEvents: DayjsPeriod[] = []
+
+	private extractedWindow: DayjsPeriod | null = null
+
+	/* The busy events added, and the number of calendar events removed, by boundaries */
+	private addedEvents: DayjsPeriod[] = []
+
+	private removedEvents: Record<string, number> = {}
+
+	/**
+	 * Build a finder for some calendars. If the configuration provided is invalid, an error will be
+	 * thrown.
+	 * @throws TimeSlotsFinderError
+	 * @param {TimeSlotsFinderOptions} options
+	 */
+	constructor(options: TimeSlotsFinderOptions) {
+		this.options = {
+			...options,
+			configuration: _checkSearchConfiguration(options.configuration, LEAP_YEAR_MOMENT),
+		}
+	}
+
+	/**
+	 * Find the available time slots between two dates.
+	 * @throws TimeSlotsFinderError
+	 * @param {TimeSlotsFinderQuery} query
+	 * @return {TimeSlot[]}
+	 */
+	getAvailableTimeSlots(query: TimeSlotsFinderQuery): TimeSlot[] {
+		const { from, to } = query
+		_checkSearchBoundaries(from, to)
+		return _searchTimeSlots(
+			{ ...this.getSearchParameters(query), from, to },
+			(window) => this.getCalendarEvents(window),
+		)
+	}
+
+	/**
+	 * Iterate over the available time slots, in order. If the query is invalid, an error will be
+	 * thrown right away.
+	 * @throws TimeSlotsFinderError
+	 * @param {TimeSlotsFinderIterationQuery} query
+	 * @return {Generator<TimeSlot>}
+	 */
+	iterateAvailableTimeSlots(
+		query: TimeSlotsFinderIterationQuery = {},
+	): Generator<TimeSlot, void, undefined> {
+		const { now, from = now ?? new Date(), to, limit } = query
+		if (to) {
+			_checkSearchBoundaries(from, to)
+		}
+		return _iterateTimeSlotsOfSearch(
+			{ ...this.getSearchParameters(query), from, to, limit },
+			(window) => this.getCalendarEvents(window),
+		)
+	}
+
+	/**
+	 * Find the first available time slot from a date (now by default). Returns null if there is
+	 * none.
+	 * @throws TimeSlotsFinderError
+	 * @param {TimeSlotsFinderIterationQuery} query
+	 * @return {TimeSlot | null}
+	 */
+	findNextAvailableSlot(
+		query: Omit<TimeSlotsFinderIterationQuery, "limit"> = {},
+	): TimeSlot | null {
+		const result = this.iterateAvailableTimeSlots({ ...query, limit: 1 }).next()
+		return result.done ? null : result.value
+	}
+
+	/**
+	 * Add a busy event to the ones of the calendars, e.g. a slot just booked.
+	 * @throws TimeSlotsFinderError
+	 * @param {ExtractedPeriod} event The event, possibly with its seats and details.
+	 */
+	addBusyEvent(event: ExtractedPeriod): void {
+		this.addedEvents.push(this.convertBusyEvent(event))
+	}
+
+	/**
+	 * Remove a busy event starting and ending at the dates of a period, e.g. a cancelled booking:
+	 * one of the events added if any, one of the events of the calendars otherwise.
+	 * @throws TimeSlotsFinderError
+	 * @param {DatePeriod} event The boundaries of the event.
+	 */
+	removeBusyEvent(event: DatePeriod): void {
+		const key = _getEventKey(this.convertBusyEvent(event))
+		const index = this.addedEvents.findIndex((addedEvent) => _getEventKey(addedEvent) === key)
+		if (index >= 0) {
+			this.addedEvents.splice(index, 1)
+		} else {
+			this.removedEvents[key] = (this.removedEvents[key] ?? 0) + 1
+		}
+	}
+
+	/* The parameters of a search, whose slot settings override the global ones */
+	private getSearchParameters(
+		query: TimeSlotsFinderIterationQuery,
+	): Omit<TimeSlotsFinderParameters, "from" | "to" | "onDayExplained"> {
+		const slotSettings = getSlotSettings(query)
+		_checkSlotSettings(slotSettings, "the query")
+		_checkUnavailablePeriods(this.options.configuration, query.now)
+		return {
+			...this.options,
+			configuration: { ...this.options.configuration, ...slotSettings },
+			now: query.now,
+			onRejectedSlot: query.onRejectedSlot ?? this.options.onRejectedSlot,
+		}
+	}
+
+	/* The busy events overlapping a window: events are only extracted beyond the cached one */
+	private getCalendarEvents(window: DayjsPeriod): DayjsPeriod[] {
+		const { extractedWindow } = this
+		const startAt = window.startAt.valueOf()
+		const endAt = window.endAt.valueOf()
+		if (
+			!extractedWindow
+			|| startAt < extractedWindow.startAt.valueOf()
+			|| endAt > extractedWindow.endAt.valueOf()
+		) {
+			this.extractCalendarEvents(window)
+		}
+		/* Each removal applies to one of the events having its boundaries */
+		const removals = { ...this.removedEvents }
+		return this.calendarEvents
+			.filter((event) => {
+				const key = _getEventKey(event)
+				removals[key] = (removals[key] ?? 0) - 1
+				return removals[key] < 0
+			})
+			.concat(this.addedEvents)
+			.filter((event) => event.startAt.valueOf() < endAt && event.endAt.valueOf() > startAt)
+	}
+
+	/* Extract the events again, for a window covering the former one too */
+	private extractCalendarEvents(window: DayjsPeriod) {
+		const { extractedWindow } = this
+		this.extractedWindow = extractedWindow
+			? {
+				startAt: _getEarliest(window.startAt, extractedWindow.startAt),
+				endAt: _getLatest(window.endAt, extractedWindow.endAt),
+			}
+			: window
+		/* Skipped events are reported when parsing */
+		this.parsedCalendars = this.parsedCalendars
+			?? _parseCalendars(this.options, this.options.configuration)
+		this.calendarEvents = this.parsedCalendars(this.extractedWindow)
+	}
+
+	private convertBusyEvent(event: ExtractedPeriod): DayjsPeriod {
+		const busyEvent = convertExtractedPeriod(event, this.options.configuration.timeZone)
+		if (!busyEvent) {
+			throw new TimeSlotsFinderError("Invalid busy event")
+		}
+		return busyEvent
+	}
+
+}
+
+/* Events are identified by their boundaries */
+function _getEventKey({ startAt, endAt }: DayjsPeriod): string {
+	return `${startAt.valueOf()}-${endAt.valueOf()}`
+}
+
+/* Time zone aware comparisons being slow, timestamps are compared */
+function _getEarliest(a: Dayjs, b: Dayjs): Dayjs {
+	return a.valueOf() <= b.valueOf() ? a : b
+}
+
+function _getLatest(a: Dayjs, b: Dayjs): Dayjs {
+	return a.valueOf() >= b.valueOf() ? a : b
+}
@@ -4,30 +4,87 @@ import {
 	_mergeOverlappingShiftsInAvailablePeriods,
 	isConfigurationValid
 } from "./config-management"
-import { extractEventsFromCalendar } from "./events-extractors/extractor"
+import { parseCalendar } from "./events-extractors/extractor"
+import { applySlotCapacity } from "./capacity"
+import { applyBookingQuotas, getQuotaWindow, RejectedTimeSlot } from "./quotas"
+import { getMaxEventPadding, padEvents } from "./event-padding"
+import { getSearchShifts, SearchShift } from "./shifts"
+import { getMaxTimeWindowNeeded, getShiftConfiguration } from "./slot-settings"
+import { createSlot, getNextSearchMoment } from "./slot-generation"
+import {
+	BusyIntervalIndex,
+	createBusyIntervalIndex,
+	findFirstIntervalEndingAfter,
+} from "./busy-intervals"
+import { getUnavailablePeriodsAsEvents } from "./unavailable-periods"
+import { DayExplanation, explainDays, SearchDetails } from "./explanations"
 import { TimeSlotsFinderError } from "./errors"
 import {
 	DayjsPeriod,
-	Period,
-	Shift,
+	EventBlockingPolicy,
+	CalendarData,
+	SkippedCalendarEvent,
 	TimeSlot,
+	TimeSlotsFinderCalendar,
 	TimeSlotsFinderCalendarFormat,
 	TimeSlotsFinderConfiguration
 } from "./types"
 
 export interface TimeSlotsFinderParameters {
-	/** The calendar data. */
-	calendarData?: string
-	/** The format of the provided data. */
-	calendarFormat?: TimeSlotsFinderCalendarFormat
+	/** The calendar data. Data of JSON based formats can be provided as a parsed object. */
+	calendarData?: CalendarData
+	/** The format of the provided data: a built-in format or a registered custom one. */
+	calendarFormat?: TimeSlotsFinderCalendarFormat | string
+	/** Other calendars whose events make the time unavailable, possibly in different formats. */
+	calendars?: TimeSlotsFinderCalendar[]
+	/**
+	 * The policy deciding which calendar events make the time unavailable. It can be overridden
+	 * for each calendar.
+	 */
+	eventBlockingPolicy?: EventBlockingPolicy
+	/** Called for each calendar event that cannot be used, with the reason why. */
+	onSkippedEvent?: (skippedEvent: SkippedCalendarEvent) => void
+	/** Called for each slot which is not offered since booking it would exceed a quota. */
+	onRejectedSlot?: (rejectedSlot: RejectedTimeSlot) => void
+	/**
+	 * Called for each day of the search with what the time of its shifts went to, e.g. to find out
+	 * why a day has no slot. Events are then extracted with their details.
+	 */
+	onDayExplained?: (explanation: DayExplanation) => void
 	/** The configuration specifying the rules used to find availabilities. */
 	configuration: TimeSlotsFinderConfiguration
 	/** The date from which searching time slots. */
 	from: Date
 	/** The date to which searching time slots. */
 	to: Date
+	/**
+	 * The moment the search happens at, e.g. to find the slots which were offered at some point in
+	 * the past. It sets the limits of `minTimeBeforeFirstSlot` and `maxDaysBeforeLastSlot`, and the
+	 * year of unavailable periods without years. Default value is now.
+	 */
+	now?: Date
 }
 
+/* The events around the shifts of a search, with the busy intervals they make */
+interface ShiftsEvents extends Omit<SearchDetails, "foundSlots" | "timeSlots"> {
+	unavailableIntervals: BusyIntervalIndex
+	busyIntervals: BusyIntervalIndex
+}
+
+/* The parameters of a search, but its boundaries */
+interface SearchParameters extends Omit<TimeSlotsFinderParameters, "from" | "to"> {
+	/* Whether the details of events are needed, e.g. to report them */
+	eventDetails?: boolean
+	/* Called with what a search found, to explain it */
+	onSearchDetails?: (details: SearchDetails) => void
+}
+
+/**
+ * Give the calendar events overlapping a window. Searches of a `TimeSlotsFinder` get them from its
+ * cache instead of extracting them from the calendars.
+ */
+export type CalendarEventsSource = (window: DayjsPeriod) => DayjsPeriod[]
+
 /**
  * Extract available time slots from a calendar. Take a configuration to precise rules used to
  * search availabilities. If the configuration provided is invalid, an error will be thrown.
@@ -36,56 +93,202 @@ export interface TimeSlotsFinderParameters {
  * @return {TimeSlot[]}
  */
 export function getAvailableTimeSlotsInCalendar(params: TimeSlotsFinderParameters): TimeSlot[] {
-	const { calendarData, configuration, from, to } = params
-	const { calendarFormat = TimeSlotsFinderCalendarFormat.iCal } = params
-
-	const usedConfig = _checkSearchParameters(configuration, from, to)
-	const { unavailablePeriods, timeZone } = usedConfig
+	const { configuration, from, to, now } = params
+	const usedConfig = _checkSearchParameters(configuration, from, to, now)
+	return _searchTimeSlots({ ...params, configuration: usedConfig })
+}
 
-	const eventList = [..._getUnavailablePeriodAsEvents(unavailablePeriods ?? [], timeZone)]
-	if (calendarData) {
-		eventList.push(...extractEventsFromCalendar(timeZone, calendarFormat, calendarData))
+/**
+ * Find the slots of a search whose parameters are checked, explaining its days if asked. Shared
+ * with `TimeSlotsFinder`.
+ */
+export function _searchTimeSlots(
+	params: TimeSlotsFinderParameters,
+	eventsSource?: CalendarEventsSource,
+): TimeSlot[] {
+	const { configuration, from, to, now, onDayExplained } = params
+	const { firstFromMoment, lastToMoment } = _computeBoundaries(from, to, configuration, now)
+	const searchShifts = getSearchShifts(configuration, firstFromMoment, lastToMoment)
+	if (!onDayExplained) {
+		return _getTimeSlotsOfShifts(params, configuration, searchShifts, eventsSource)
+	}
+	/* Without shifts to search, nothing is found */
+	let details: SearchDetails = {
+		calendarEvents: [], paddedEvents: [], unavailableEvents: [], foundSlots: [], timeSlots: [],
 	}
-	const { firstFromMoment, lastToMoment } = _computeBoundaries(from, to, usedConfig)
+	const onSearchDetails = (searchDetails: SearchDetails) => { details = searchDetails }
+	const timeSlots = _getTimeSlotsOfShifts(
+		{ ...params, eventDetails: true, onSearchDetails },
+		configuration,
+		searchShifts,
+		eventsSource,
+	)
+	explainDays({ configuration, from, to, firstFromMoment, lastToMoment }, details)
+		.forEach(onDayExplained)
+	return timeSlots
+}
 
+/**
+ * Find the slots of some shifts of a search, sorted by start. Only the calendar events around them
+ * are extracted, unless a source gives them. Shared with the iteration over the slots of a search
+ * and with `TimeSlotsFinder`.
+ */
+export function _getTimeSlotsOfShifts(
+	params: SearchParameters,
+	usedConfig: TimeSlotsFinderConfiguration,
+	searchShifts: SearchShift[],
+	eventsSource?: CalendarEventsSource,
+): TimeSlot[] {
+	if (!searchShifts.length) {
+		return []
+	}
+	const events = _getEventsOfShifts(params, usedConfig, searchShifts, eventsSource)
+	const { unavailableIntervals, calendarEvents, busyIntervals } = events
+	const foundSlots: TimeSlot[] = []
 	const timeSlots: TimeSlot[] = []
+	searchShifts.forEach((searchShift) => {
+		const { shift } = searchShift
+		const capacity = shift.capacity ?? usedConfig.capacity
+		const slots = _getAvailableTimeSlotsForShift(
+			getShiftConfiguration(usedConfig, shift),
+			/* Calendar events take seats in the slots of group sessions instead of blocking them */
+			capacity == null ? busyIntervals : unavailableIntervals,
+			searchShift,
+		).map((slot) => ({ ...slot, shift }))
+		foundSlots.push(...slots)
+		timeSlots.push(...applyBookingQuotas(
+			applySlotCapacity(slots, calendarEvents, capacity, usedConfig.keepFullSlots),
+			calendarEvents,
+			{ configuration: usedConfig, shift: searchShift },
+			params.onRejectedSlot,
+		))
+	})
+	params.onSearchDetails?.({ ...events, foundSlots, timeSlots })
+	return timeSlots
+}
 
-	let fromMoment = firstFromMoment
-	while (fromMoment.isBefore(lastToMoment)) {
-		// Retrieve availablePeriods shifs for the given weekday
-		const weekDayConfig = _getWeekDayConfigForMoment(usedConfig, fromMoment)
-		if (weekDayConfig) {
-			/* Go through each shift of the week day */
-			weekDayConfig.shifts.forEach((shift: Shift) => {
-				const { startAt, endAt } = _getMomentsFromShift(fromMoment, shift)
-				/* Ensure that shift boundaries don't exceed global boundaries */
-				const partialFrom = dayjs.max(firstFromMoment, startAt)
-				const partialTo = dayjs.min(lastToMoment, endAt)
-				if (!partialFrom.isSameOrBefore(partialTo)) {
-					/* That may happen when shift boundaries exceed global ones */
-					return
-				}
-				timeSlots.push(
-					..._getAvailableTimeSlotsForShift(usedConfig, eventList, partialFrom, partialTo)
-				)
-			})
-		}
-		/* Go one day forward: all shifts for this day has been processed (if any) */
-		fromMoment = fromMoment.add(1, "day").startOf("day")
+/*
+ * Get the events around some shifts: the calendar events, and the busy intervals they and the
+ * unavailable periods make, indexed once for all the shifts
+ */
+function _getEventsOfShifts(
+	params: SearchParameters,
+	usedConfig: TimeSlotsFinderConfiguration,
+	searchShifts: SearchShift[],
+	eventsSource?: CalendarEventsSource,
+): ShiftsEvents {
+	/* Search shifts are sorted and don't overlap */
+	const firstFromMoment = searchShifts[0].startAt
+	const lastToMoment = searchShifts[searchShifts.length - 1].endAt
+	const searchWindow = _getSearchWindow(usedConfig, firstFromMoment, lastToMoment)
+	const unavailableEvents = getUnavailablePeriodsAsEvents(
+		usedConfig.unavailablePeriods ?? [],
+		usedConfig.timeZone,
+		searchWindow,
+		params.now,
+	)
+	/* Events before or after the search may count for its quotas */
+	const eventsWindow = getQuotaWindow(usedConfig, searchWindow)
+	const calendarEvents = (eventsSource ?? _parseCalendars(params, usedConfig))(eventsWindow)
+	const paddedEvents = padEvents(calendarEvents, usedConfig.eventPadding)
+	return {
+		calendarEvents,
+		paddedEvents,
+		unavailableEvents,
+		unavailableIntervals: createBusyIntervalIndex(unavailableEvents),
+		busyIntervals: createBusyIntervalIndex(unavailableEvents.concat(paddedEvents)),
 	}
+}
 
-	return timeSlots
+/** Extract the events of the calendars of a search. Shared with the checks of proposed slots. */
+export function _getCalendarEvents(
+	params: SearchParameters,
+	configuration: TimeSlotsFinderConfiguration,
+	firstFromMoment: Dayjs,
+	lastToMoment: Dayjs,
+): DayjsPeriod[] {
+	/* Events before or after the search may count for its quotas */
+	const searchWindow = _getSearchWindow(configuration, firstFromMoment, lastToMoment)
+	const eventsWindow = getQuotaWindow(configuration, searchWindow)
+	return _parseCalendars(params, configuration)(eventsWindow)
+}
+
+/**
+ * Parse the calendars of a search once, giving their events overlapping any window: only the
+ * recurrences are expanded again. Shared with the iteration over the slots of a search and with
+ * `TimeSlotsFinder`.
+ */
+export function _parseCalendars(
+	params: SearchParameters,
+	configuration: TimeSlotsFinderConfiguration,
+): CalendarEventsSource {
+	const { eventBlockingPolicy, onSkippedEvent, eventDetails } = params
+	const { timeZone, seatsProperty, eventPadding } = configuration
+
+	const parsedCalendars = _getCalendars(params)
+		.filter((calendar) => calendar.blocksTime ?? true)
+		.map((calendar) => parseCalendar(timeZone, calendar.format, calendar.data, {
+			seatsProperty,
+			/* Only padding rules match the details of events, unless they are reported */
+			eventDetails: eventDetails || Boolean(eventPadding?.rules?.length),
+			eventBlockingPolicy: { ...eventBlockingPolicy, ...calendar.eventBlockingPolicy },
+			onSkippedEvent: onSkippedEvent && ((skippedEvent) => onSkippedEvent({
+				...skippedEvent,
+				calendarLabel: calendar.label,
+			})),
+		}))
+	return (window) => parsedCalendars.reduce((events: DayjsPeriod[], parsedCalendar) => (
+		events.concat(parsedCalendar(window))
+	), [])
+}
+
+/**
+ * Get the window events must overlap to matter for a search: events beyond the boundaries can
+ * still break the free time required around slots (the widest one of any shift), or their
+ * padding.
+ */
+export function _getSearchWindow(
+	configuration: TimeSlotsFinderConfiguration,
+	firstFromMoment: Dayjs,
+	lastToMoment: Dayjs,
+): DayjsPeriod {
+	const minTimeWindowNeeded = getMaxTimeWindowNeeded(configuration)
+		+ getMaxEventPadding(configuration)
+	return {
+		startAt: firstFromMoment.subtract(minTimeWindowNeeded, "minute"),
+		endAt: lastToMoment.add(minTimeWindowNeeded, "minute"),
+	}
+}
+
+/* Gather the calendars of the search, the one provided with `calendarData` coming first */
+function _getCalendars(params: SearchParameters): TimeSlotsFinderCalendar[] {
+	const { calendarData, calendars = [] } = params
+	const { calendarFormat = TimeSlotsFinderCalendarFormat.iCal } = params
+	return (calendarData ? [{ data: calendarData, format: calendarFormat }] : [])
+		.concat(calendars)
 }
 
-function _checkSearchParameters(
+export function _checkSearchParameters(
 	configuration: TimeSlotsFinderConfiguration,
 	from: Date,
 	to: Date,
+	now?: Date,
 ): TimeSlotsFinderConfiguration {
+	_checkSearchBoundaries(from, to)
+	return _checkSearchConfiguration(configuration, now)
+}
+
+export function _checkSearchBoundaries(from: Date, to: Date): void {
 	if (!from || !to || from.getTime() > to.getTime()) {
 		throw new TimeSlotsFinderError("Invalid boundaries for the search")
 	}
+}
 
+/** Check a configuration, and give the one used by searches: with merged shifts. */
+export function _checkSearchConfiguration(
+	configuration: TimeSlotsFinderConfiguration,
+	now?: Date,
+): TimeSlotsFinderConfiguration {
 	let usedConfig = configuration
 	try {
 		const formattedPeriods = _mergeOverlappingShiftsInAvailablePeriods(
@@ -96,20 +299,26 @@ function _checkSearchParameters(
 		/* If workedPeriods aren't formatted well and provoke an error, the validation will fail */
 	}
 	/* Don't go further if configuration is invalid */
-	isConfigurationValid(usedConfig)
+	isConfigurationValid(usedConfig, now)
 	return usedConfig
 }
 
-function _computeBoundaries(from: Date, to: Date, configuration: TimeSlotsFinderConfiguration) {
+export function _computeBoundaries(
+	from: Date,
+	to: Date,
+	configuration: TimeSlotsFinderConfiguration,
+	now?: Date,
+): { firstFromMoment: Dayjs, lastToMoment: Dayjs } {
+	const nowMoment = dayjs(now).tz(configuration.timeZone)
 	const searchLimitMoment = configuration.maxDaysBeforeLastSlot
-		? dayjs().tz(configuration.timeZone)
+		? nowMoment
 			.add(configuration.maxDaysBeforeLastSlot, "day")
 			.endOf("day")
 		: null
 
 	const firstFromMoment = dayjs.max(
 		dayjs(from).tz(configuration.timeZone),
-		dayjs().tz(configuration.timeZone)
+		nowMoment
 			/* `minAvailableTimeBeforeSlot` will be subtract later and it cannot start before now */
 			.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
 			.add(configuration.minTimeBeforeFirstSlot ?? 0, "minute"),
@@ -121,36 +330,13 @@ function _computeBoundaries(from: Date, to: Date, configuration: TimeSlotsFinder
 	return { firstFromMoment, lastToMoment }
 }
 
-function _getWeekDayConfigForMoment(
-	configuration: TimeSlotsFinderConfiguration,
-	searchMoment: Dayjs,
-) {
-	return (
-		configuration.availablePeriods.find((p) => p.isoWeekDay === searchMoment.isoWeekday())
-		|| null
-	)
-}
-
-function _getMomentsFromShift(fromMoment: Dayjs, shift: Shift) {
-	let startAt = fromMoment.clone()
-	startAt = startAt.hour(parseInt(shift.startTime.slice(0, 2), 10))
-	startAt = startAt.minute(parseInt(shift.startTime.slice(3), 10))
-
-	let endAt = fromMoment.clone()
-	endAt = endAt.hour(parseInt(shift.endTime.slice(0, 2), 10))
-	endAt = endAt.minute(parseInt(shift.endTime.slice(3), 10))
-
-	return { startAt, endAt }
-}
-
 function _getAvailableTimeSlotsForShift(
 	configuration: TimeSlotsFinderConfiguration,
-	eventList: DayjsPeriod[],
-	from: Dayjs,
-	to: Dayjs,
+	busyIntervals: BusyIntervalIndex,
+	{ startAt: from, endAt: to, occurrence }: SearchShift,
 ) {
 	const timeSlots: TimeSlot[] = []
-	const minTimeWindowNeeded = _getMinTimeWindowNeeded(configuration)
+	const minTimeWindowNeeded = _getMinTimeWindowNeeded(configuration) * 60000
 
 	const minAvailableTimeBeforeSlot = configuration.minAvailableTimeBeforeSlot ?? 0
 	const minAvailableTimeAfterSlot = configuration.timeSlotDuration
@@ -162,34 +348,31 @@ function _getAvailableTimeSlotsForShift(
 	 *  Ensures we don't create an event that would finish after "to" boundary
 	 *  or break minAvailableTimeBeforeSlot
 	 */
-	const searchEndMoment = to.subtract(minAvailableTimeAfterSlot, "minute")
+	const searchEndMoment = to.subtract(minAvailableTimeAfterSlot, "minute").valueOf()
 
 	/*
-	 *  We can safely ignore calendar events outside from/to boundaries
-	 *  We extend this boundaries to take in account minAvailableTimeBeforeSlot
+	 * Time zone aware comparisons being slow, timestamps are compared.
+	 * Find index of the first busy interval that is not yet ended at searchMoment
 	 */
-	const filteringMin = from.subtract(minAvailableTimeBeforeSlot, "minute")
-	const filteringMax = to.add(minAvailableTimeAfterSlot, "minute")
-	const cleanedList: DayjsPeriod[] = _prepareEvents(eventList, filteringMin, filteringMax)
-
-	/* Find index of the first event that is not yet ended at searchMoment */
-	let eventIndex = cleanedList.findIndex((event) => event.endAt.isAfter(searchMoment))
-	while (searchMoment.isSameOrBefore(searchEndMoment)) {
-		const focusedEvent: DayjsPeriod | null = (eventIndex >= 0 && cleanedList[eventIndex]) || null
-		/* Adjust searchMoment according to the slotStartMinuteMultiple param */
-		searchMoment = _nextSearchMoment(searchMoment, configuration)
-
-		const freeTimeLimitMoment = searchMoment.add(minTimeWindowNeeded, "minute")
-
-		if (focusedEvent?.startAt.isBefore(freeTimeLimitMoment)) {
+	let intervalIndex = findFirstIntervalEndingAfter(busyIntervals, searchMoment.valueOf())
+	const { intervals, startAts } = busyIntervals
+	while (searchMoment.valueOf() <= searchEndMoment) {
+		/* Adjust searchMoment according to the slotStartMinuteMultiple param, or to the grid */
+		searchMoment = getNextSearchMoment(searchMoment, configuration, occurrence.startAt)
+		if (searchMoment.valueOf() > searchEndMoment) { break }
+
+		if (
+			intervalIndex < intervals.length
+			&& startAts[intervalIndex] < searchMoment.valueOf() + minTimeWindowNeeded
+		) {
 			/**
-			 * If first event that is not yet ended start to soon to get a slot at this time,
-			 * go directly to the end of the event for next search.
+			 * If first interval that is not yet ended start to soon to get a slot at this time,
+			 * go directly to the end of the interval for next search.
 			 */
-			searchMoment = focusedEvent.endAt.clone()
-			if (focusedEvent) { eventIndex += 1 }
+			searchMoment = intervals[intervalIndex].endAt.clone()
+			intervalIndex += 1
 		} else {
-			const { newSearchMoment, timeSlot } = _pushNewSlot(searchMoment, configuration)
+			const { newSearchMoment, timeSlot } = createSlot(searchMoment, configuration)
 			timeSlots.push(timeSlot)
 			searchMoment = newSearchMoment
 		}
@@ -197,43 +380,6 @@ function _getAvailableTimeSlotsForShift(
 	return timeSlots
 }
 
-/*
- * Filter events time boundaries (to enhance performance)
- * then sort by startDate (to make binary sort possible)
- * then filter encompassed events (using binary search)
- */
-function _prepareEvents(periods: DayjsPeriod[], from: Dayjs, to:Dayjs) {
-	const filteredPeriods = _filterPeriods(periods, from, to)
-	const sortedPeriods = _sortPeriods(filteredPeriods)
-	return sortedPeriods.filter((event) => !_findEmcompassingEvent(sortedPeriods, event))
-}
-
-/* Comparison function to sort DayjsPeriod on start date */
-function _sortPeriods(periods: DayjsPeriod[]) {
-	return periods.sort((a, b) => (a.startAt.isAfter(b.startAt) ? 1 : -1))
-}
-
-/* Filter DayjsPeriod which are strictly outside the provided boundaries */
-function _filterPeriods(periods: DayjsPeriod[], from: Dayjs, to: Dayjs) {
-	return periods.filter((period) => period.startAt.isBefore(to)
-		&& period.endAt.isAfter(from))
-}
-
-/* Uses a sorted search technique. Event list must be sorted on event.startAt */
-function _findEmcompassingEvent(eventList: DayjsPeriod[], event: DayjsPeriod): boolean {
-	for (const currentEvent of eventList) {
-		// Found condition
-		if (currentEvent.startAt.isSameOrBefore(event.startAt)
-			&& currentEvent.endAt.isAfter(event.endAt)) {
-			return true
-		// Stop if outside boundaries
-		} else if (currentEvent.startAt.isAfter(event.startAt)) {
-			return false
-		}
-	}
-	return false
-}
-
 function _getMinTimeWindowNeeded(configuration :TimeSlotsFinderConfiguration) {
 	return (
 		(configuration.minAvailableTimeBeforeSlot ?? 0)
@@ -241,68 +387,3 @@ function _getMinTimeWindowNeeded(configuration :TimeSlotsFinderConfiguration) {
 		+ (configuration.minAvailableTimeAfterSlot ?? 0)
 	)
 }
-
-function _pushNewSlot(
-	searchMoment: Dayjs,
-	configuration: TimeSlotsFinderConfiguration,
-): { newSearchMoment: Dayjs, timeSlot: TimeSlot } {
-	const startAt = searchMoment
-		.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
-	const endAt = startAt.add(configuration.timeSlotDuration, "minute")
-	const timeSlot = {
-		startAt: startAt.toDate(),
-		endAt: endAt.toDate(),
-		duration: endAt.diff(startAt, "minute"),
-	}
-	/**
-	 * We should start searching after just created slot (including free time after it) but before
-	 * next one free time before it (since the search algorithm take it in account).
-	 */
-	const minutesBeforeNextSearch = Math.max(
-		(configuration.minAvailableTimeAfterSlot ?? 0)
-		- (configuration.minAvailableTimeBeforeSlot ?? 0),
-		0
-	)
-	return {
-		newSearchMoment: endAt
-			.add(minutesBeforeNextSearch, "minute"),
-		timeSlot
-	}
-}
-
-function _getUnavailablePeriodAsEvents(unavailablePeriods: Period[], timeZone: string) {
-	return unavailablePeriods.map((unavailablePeriod) => {
-		/* Transit through string since dayjs.tz with object parsing is bugged */
-		const startAtString = dayjs(unavailablePeriod.startAt as never).format("YYYY-MM-DD HH:mm")
-		let startAt = dayjs.tz(startAtString, timeZone)
-		const endAtString = dayjs(unavailablePeriod.endAt as never).format("YYYY-MM-DD HH:mm")
-		let endAt = dayjs.tz(endAtString, timeZone)
-
-		/* If no hours defined, use full days */
-		if (unavailablePeriod.startAt.hour == null) {
-			startAt = startAt.startOf("day")
-		}
-		if (unavailablePeriod.endAt.hour == null) {
-			endAt = endAt.endOf("day")
-		}
-
-		/* Can only happen if no years were defined: push endAt to next year */
-		if (endAt.isBefore(startAt)) {
-			endAt = endAt.add(1, "year")
-		}
-		return { startAt, endAt }
-	})
-}
-
-function _nextSearchMoment(moment: Dayjs, configuration: TimeSlotsFinderConfiguration): Dayjs {
-	/* Round up to the next minute if second value is not 0 */
-	const nextMoment = moment.second() !== 0
-		? moment.startOf("minute").add(1, "minute")
-		: moment.clone()
-	const slotStartAt = nextMoment.add(configuration.minAvailableTimeBeforeSlot ?? 0, "minute")
-	const slotStartMinuteStep = configuration.slotStartMinuteStep ?? 5
-	const minuteToAdd = (
-		slotStartMinuteStep - (slotStartAt.minute() % slotStartMinuteStep)
-	) % slotStartMinuteStep
-	return nextMoment.add(minuteToAdd, "minute").millisecond(0)
-}
@@ -1,5 +1,9 @@
 import { Dayjs } from "dayjs"
 
+import { EventPadding } from "./event-padding"
+import { BookingQuota, QuotaLimits } from "./quotas"
+import { SlotGenerationMode } from "./slot-generation"
+
 export interface PeriodMoment {
 	/** The year of the moment. */
 	year?: number
@@ -13,27 +17,106 @@ export interface PeriodMoment {
 	minute?: number
 }
 
+export type RecurrenceFrequency = "YEARLY" | "MONTHLY" | "WEEKLY" | "DAILY"
+
+export interface RecurrenceWeekDay {
+	/** An ISO weekday (1 for Monday to 7 for Sunday). */
+	isoWeekDay: number
+	/**
+	 * The nth occurrence of the weekday in the month or the year. Negative values count from the
+	 * end. When omitted, every matching weekday is used.
+	 */
+	ordinal?: number
+}
+
+/**
+ * The way a period repeats, following the semantics of iCal recurrence rules (RFC 5545): the
+ * period itself is the first occurrence, and the next ones keep its duration.
+ */
+export interface PeriodRecurrence {
+	/** The type of period the recurrence repeats on. */
+	frequency: RecurrenceFrequency
+	/** The number of periods between two repetitions. Default value is 1. */
+	interval?: number
+	/** The maximum number of occurrences, including the first one. */
+	count?: number
+	/** The last moment an occurrence can start at (inclusive), year included. */
+	until?: PeriodMoment
+	/** The months (0 indexed) the occurrences are limited to. */
+	byMonth?: number[]
+	/** The days of the month (negative values count from the end) of the occurrences. */
+	byMonthDay?: number[]
+	/** The weekdays of the occurrences, possibly with their ordinal in the month or the year. */
+	byWeekDay?: RecurrenceWeekDay[]
+	/** The positions (negative values count from the end) to keep in each period's occurrences. */
+	bySetPosition?: number[]
+	/** The ISO weekday a week starts on. Default value is 1 (Monday). */
+	weekStart?: number
+	/** The start of the occurrences to skip (year included), or their day when without hour. */
+	exceptions?: PeriodMoment[]
+}
+
 export interface Period {
 	/** The moment the shift starts. When no year specified the shift repeats every year. */
 	startAt: PeriodMoment
 	/** The moment the shift end. If year defined for `startAt`, it must be defined for `endAt`. */
 	endAt: PeriodMoment
+	/** The way the period repeats. Years of `startAt` and `endAt` are then required. */
+	recurrence?: PeriodRecurrence
+}
+
+/** The settings of the slots, which available periods and shifts can override. */
+export interface SlotSettings {
+	/** Duration of a appointment in minutes. */
+	timeSlotDuration?: number
+	/** A number indicating the step for the start minute of a slot. */
+	slotStartMinuteStep?: number
+	/** The minimum amount of minutes available before an appointment. */
+	minAvailableTimeBeforeSlot?: number
+	/** The minimum amount of minutes available after an appointment. */
+	minAvailableTimeAfterSlot?: number
 }
 
-export interface Shift {
+/** A shift, whose settings override the ones of its available period and the global ones. */
+export interface Shift extends SlotSettings {
 	/** A start time in the `HH:mm` format. */
 	startTime: string
 	/** An end time in the `HH:mm` format. */
 	endTime: string
+	/** The number of people a slot of this shift can welcome. Overrides the global capacity. */
+	capacity?: number
+	/** A quota counting the calendar events of each occurrence of the shift. */
+	quota?: QuotaLimits
 }
 
-export interface AvailablePeriod {
+/** The shifts of a weekday, whose settings override the global ones. */
+export interface AvailablePeriod extends SlotSettings {
 	/** An ISO weekday (1 for Monday to 7 for Sunday). */
 	isoWeekDay: number
 	/** A list of shifts for the day. */
 	shifts: Shift[]
 }
 
+/** The way an availability override changes the weekly shifts of its dates. */
+export enum AvailabilityOverrideMode {
+	/** The shifts of the override are added to the weekly ones. */
+	add = "add",
+	/** The shifts of the override are the only ones of its dates. */
+	replace = "replace",
+}
+
+/** Shifts of specific dates, e.g. an exceptional opening or shorter hours on a given day. */
+export interface AvailabilityOverride {
+	/** The first date of the override, in the `YYYY-MM-DD` format. */
+	startDate: string
+	/** The last date of the override (included), in the same format. Default is `startDate`. */
+	endDate?: string
+	/** Whether the shifts are added to the weekly ones or replace them. Default is `replace`. */
+	mode?: AvailabilityOverrideMode
+	/** The shifts of each date of the override. Replacing with no shifts closes the dates. */
+	shifts: Shift[]
+}
+
 export interface TimeSlotsFinderConfiguration {
 	/** Duration of a appointment in minutes. */
 	timeSlotDuration: number
@@ -45,6 +128,10 @@ export interface TimeSlotsFinderConfiguration {
 	 * Default value is 5.
 	 */
 	slotStartMinuteStep?: number
+	/** The way slots are placed in shifts. Default value is back-to-back. */
+	slotGenerationMode?: SlotGenerationMode
+	/** Shifts of specific dates, taking precedence over the weekly available periods. */
+	availabilityOverrides?: AvailabilityOverride[]
 	/** Periods where booking is impossible. Take precedence over workedPeriods. */
 	unavailablePeriods?: Period[]
 	/** The minimum amount of minutes available before an appointment. */
@@ -57,11 +144,100 @@ export interface TimeSlotsFinderConfiguration {
 	maxDaysBeforeLastSlot?: number
 	/** The timezone used through all the configuration. */
 	timeZone: string
+	/**
+	 * The number of people a slot can welcome, for group sessions. When defined, calendar events
+	 * don't make the time unavailable anymore: each event overlapping a slot takes seats in it.
+	 */
+	capacity?: number
+	/** The property of events giving the seats they take (e.g. `X-SEATS`), one by default. */
+	seatsProperty?: string
+	/** Whether slots without remaining capacity are returned, flagged as full. Default is false. */
+	keepFullSlots?: boolean
+	/** Quotas limiting the calendar events booked in each day, week or month. */
+	quotas?: BookingQuota[]
+	/** The free time required around the existing calendar events. */
+	eventPadding?: EventPadding
+}
+
+/** The details of a calendar event, matched by the padding rules or reported. */
+export interface EventDetails {
+	/** The unique identifier of the event, if any. */
+	eventId?: string
+	/** The summary (title) of the event. */
+	summary?: string
+	/** The location of the event. */
+	location?: string
+	/** The categories of the event. */
+	categories?: string[]
 }
 
-export interface DayjsPeriod {
+export interface DayjsPeriod extends EventDetails {
 	startAt: Dayjs
 	endAt: Dayjs
+	/** For calendar events, the number of seats taken in slots having a capacity. */
+	seats?: number
+}
+
+/** The way an event occupies the calendar it belongs to. */
+export enum EventAvailability {
+	/** The event is confirmed and takes time. */
+	busy = "busy",
+	/** The event isn't confirmed yet, or the owner didn't answer the invitation. */
+	tentative = "tentative",
+	/** The event is transparent: it doesn't take time. */
+	free = "free",
+	/** The event has been cancelled. */
+	cancelled = "cancelled",
+	/** The owner of the calendar declined the invitation. */
+	declined = "declined",
+	/** The owner of the calendar is out of office. */
+	outOfOffice = "outOfOffice",
+	/** The owner of the calendar works from somewhere else, but is available. */
+	workingElsewhere = "workingElsewhere",
+}
+
+export interface EventBlockingPolicy {
+	/** Whether tentative events make the time unavailable. Default value is true. */
+	tentativeBlocksTime?: boolean
+	/** Whether transparent events make the time unavailable. Default value is false. */
+	transparentBlocksTime?: boolean
+	/** Whether cancelled events make the time unavailable. Default value is false. */
+	cancelledBlocksTime?: boolean
+	/** Whether working elsewhere makes the time unavailable. Default value is false. */
+	workingElsewhereBlocksTime?: boolean
+	/**
+	 * The email addresses of the calendar owner. Events this owner is invited to are classified
+	 * according to the owner's participation status (declined, tentative...).
+	 */
+	ownerEmails?: string[]
+}
+
+export interface SkippedCalendarEvent {
+	/** The position of the event in the calendar (0 indexed). */
+	index: number
+	/** The unique identifier of the event, if any. */
+	eventId?: string
+	/** The label of the calendar the event belongs to, if any. */
+	calendarLabel?: string
+	/** The identifier of the participant the calendar belongs to, if any. */
+	participantId?: string
+	/** The identifier of the resource the calendar belongs to, if any. */
+	resourceId?: string
+	/** The reason why the event has been skipped. */
+	reason: string
+}
+
+export interface CalendarExtractionOptions {
+	/** If provided, only events overlapping this period are extracted. */
+	searchWindow?: DayjsPeriod
+	/** The policy deciding which events make the time unavailable. */
+	eventBlockingPolicy?: EventBlockingPolicy
+	/** Called for each event that cannot be used (invalid dates, unsupported rules...). */
+	onSkippedEvent?: (skippedEvent: SkippedCalendarEvent) => void
+	/** The property of events giving the number of seats they take, if any. */
+	seatsProperty?: string
+	/** Whether the details of events (summary, location, categories) are needed. */
+	eventDetails?: boolean
 }
 
 export interface DatePeriod {
@@ -69,10 +245,154 @@ export interface DatePeriod {
 	endAt: Date
 }
 
+/** The options passed to the extractors registered for custom calendar formats. */
+export interface CalendarExtractorOptions {
+	/** If provided, only events overlapping this period are needed. */
+	searchWindow?: DatePeriod
+	/** The policy deciding which events make the time unavailable. */
+	eventBlockingPolicy?: EventBlockingPolicy
+	/** To be called for each event that cannot be used, with the reason why. */
+	onSkippedEvent?: (skippedEvent: SkippedCalendarEvent) => void
+	/** The property of events giving the number of seats they take, if any. */
+	seatsProperty?: string
+	/** Whether the details of events (summary, location, categories) are needed. */
+	eventDetails?: boolean
+}
+
+/** A period extracted by a custom extractor, possibly taking several seats in slots. */
+export interface ExtractedPeriod extends DatePeriod, EventDetails {
+	/** The number of seats taken in slots having a capacity. Default value is 1. */
+	seats?: number
+}
+
+/**
+ * A function extracting the periods where the time is unavailable from calendar data, used to
+ * support custom calendar formats.
+ */
+export type CalendarExtractor = (
+	calendarData: string,
+	timeZone: string,
+	options: CalendarExtractorOptions,
+) => ExtractedPeriod[]
+
 export interface TimeSlot extends DatePeriod {
 	duration: number
+	/** The shift the slot was found in, with the settings inherited from its available period. */
+	shift?: Shift
+	/** For slots having a capacity, the number of seats still available. */
+	remainingCapacity?: number
+	/** For slots having a capacity, set when no seat is available (see `keepFullSlots`). */
+	isFull?: boolean
+}
+
+export interface ParticipantsTimeSlot extends TimeSlot {
+	/** The identifiers of the participants available for the slot, required ones included. */
+	availableParticipants: string[]
+	/** The identifiers of the optional participants who are not available for the slot. */
+	unavailableParticipants: string[]
+}
+
+/** The way a resource of a pool is suggested for a slot, among the eligible ones. */
+export enum ResourceAssignmentStrategy {
+	/** The resource following the last assigned one, in the order of the pool. */
+	roundRobin = "roundRobin",
+	/** The resource with the fewest calendar events during the search. */
+	leastBooked = "leastBooked",
+	/** The first resource, in the order of the pool. */
+	priority = "priority",
+}
+
+export interface PooledTimeSlot extends TimeSlot {
+	/** The identifiers of the resources available for the slot, in the order of the pool. */
+	eligibleResources: string[]
+	/** The identifier of the resource the slot should be assigned to. */
+	suggestedResource: string
 }
 
 export enum TimeSlotsFinderCalendarFormat {
-	iCal = "iCal"
+	iCal = "iCal",
+	jCal = "jCal",
+	googleFreeBusy = "googleFreeBusy",
+	microsoftGraphSchedule = "microsoftGraphSchedule",
+}
+
+/** A jCal property (RFC 7265): its name, its parameters, the type of its values and its values. */
+export type JCalProperty = [string, { [name: string]: string | string[] }, string, ...unknown[]]
+
+/** A jCal component (RFC 7265): its name, its properties and its sub-components. */
+export type JCalComponent = [string, JCalProperty[], JCalComponent[]]
+
+/** A response of the Google Calendar API `freeBusy.query` method. */
+export interface GoogleFreeBusyResponse {
+	calendars: {
+		[calendarId: string]: {
+			busy?: { start: string, end: string }[]
+			errors?: { domain: string, reason: string }[]
+		}
+	}
+}
+
+/** A date and time of the Microsoft Graph API, in the given (IANA or Windows) time zone. */
+export interface GraphDateTimeTimeZone {
+	dateTime: string
+	timeZone: string
+}
+
+/**
+ * A response of the Microsoft Graph API `calendar/getSchedule` action. The `startTime` and
+ * `availabilityViewInterval` parameters of the request are needed to read the availability view
+ * of schedules without schedule items.
+ */
+export interface GraphScheduleResponse {
+	value: {
+		scheduleId?: string
+		availabilityView?: string
+		scheduleItems?: {
+			status: string
+			start: GraphDateTimeTimeZone
+			end: GraphDateTimeTimeZone
+		}[]
+		error?: { message?: string, responseCode?: string }
+	}[]
+	/** The start time of the request. */
+	startTime?: GraphDateTimeTimeZone
+	/** The length in minutes of each availability view item. Default value is 30. */
+	availabilityViewInterval?: number
+}
+
+/** Calendar data, either as text or (for JSON based formats) as an already parsed object. */
+export type CalendarData = string | JCalComponent | GoogleFreeBusyResponse | GraphScheduleResponse
+
+export interface TimeSlotsFinderCalendar {
+	/** The calendar data. Data of JSON based formats can be provided as a parsed object. */
+	data: CalendarData
+	/** The format of the provided data: a built-in format or a registered custom one. */
+	format: TimeSlotsFinderCalendarFormat | string
+	/** A label identifying the calendar, e.g. "Work" or "Personal". */
+	label?: string
+	/** Whether the events of the calendar make the time unavailable. Default value is true. */
+	blocksTime?: boolean
+	/** The policy deciding which events of the calendar make the time unavailable. */
+	eventBlockingPolicy?: EventBlockingPolicy
+}
+
+/** The iCal components time slots can be exported as. */
+export enum ICalExportComponent {
+	/** A single VFREEBUSY component, listing the slots as free time. */
+	freeBusy = "VFREEBUSY",
+	/** A transparent VEVENT component for each slot. */
+	event = "VEVENT",
+}
+
+export interface ICalExportOptions {
+	/** The component used to export the slots. Default value is VFREEBUSY. */
+	component?: ICalExportComponent
+	/** Whether overlapping or adjacent slots are merged into free windows. Default is false. */
+	mergeSlots?: boolean
+	/** The summary of exported VEVENT components. Default value is "Available". */
+	summary?: string
+	/** The identifier of the product creating the calendar (PRODID). */
+	productId?: string
+	/** The moment the calendar is created at (DTSTAMP). Default value is now. */
+	now?: Date
 }
@@ -0,0 +1,178 @@
+import dayjs, { Dayjs } from "dayjs"
+
+import { TimeSlotsFinderError } from "./errors"
+import { expandRecurrenceRule, getInvalidRecurrenceField } from "./recurrence"
+import { DayjsPeriod, Period, PeriodMoment, PeriodRecurrence } from "./types"
+
+/**
+ * Indicate either if the provided date string is valid or not.
+ * @param {PeriodMoment} periodMoment The date object to check.
+ * @param {Date} now The moment giving the year of moments without years. Default value is now.
+ * @returns {boolean}
+ */
+export function isPeriodMomentValid(periodMoment: PeriodMoment, now?: Date): boolean {
+	if (periodMoment.hour == null && periodMoment.minute != null) {
+		return false
+	}
+
+	const isYearAndMonthValid = (
+		(periodMoment.year == null || periodMoment.year > 0)
+		&& periodMoment.month >= 0 && periodMoment.month <= 11
+	)
+
+	if (!isYearAndMonthValid) {
+		return false
+	}
+
+	/* The day check depends on month and year */
+	let day = dayjs(now).month(periodMoment.month)
+	if (periodMoment.year) { day = day.year(periodMoment.year) }
+
+	return (
+		periodMoment.day >= 1 && periodMoment.day <= day.daysInMonth()
+		&& (periodMoment.hour == null || (periodMoment.hour >= 0 && periodMoment.hour <= 23))
+		&& (periodMoment.minute == null || (periodMoment.minute >= 0 && periodMoment.minute <= 59))
+	)
+}
+
+/**
+ * Check the recurrence of an unavailable period. Throws if not valid.
+ * @param {Period} period A valid period, having a recurrence.
+ * @param {number} index The index of the period in the list.
+ */
+export function checkPeriodRecurrence(period: Period, index: number): void {
+	const recurrence = period.recurrence as PeriodRecurrence
+	if (period.startAt.year == null) {
+		throw new TimeSlotsFinderError(`Recurring unavailable period nº${index + 1} must have years`)
+	}
+	const { until, exceptions } = recurrence
+	const checks: [string, boolean][] = [
+		["until", until == null || _isDatedMomentValid(until)],
+		["exceptions", exceptions == null || (
+			Array.isArray(exceptions) && exceptions.every(_isDatedMomentValid)
+		)],
+	]
+	const invalidField = getInvalidRecurrenceField(recurrence)
+		?? checks.find(([, isValid]) => !isValid)?.[0]
+	if (invalidField) {
+		throw new TimeSlotsFinderError(`Invalid recurrence ${invalidField} for unavailable period nº${index + 1}`)
+	}
+}
+
+/**
+ * Expand a recurring unavailable period into its occurrences overlapping a window.
+ * @param {Period} period A valid period, having a recurrence.
+ * @param {string} timeZone The time zone of the configuration.
+ * @param {DayjsPeriod} window The window occurrences must overlap.
+ * @returns {DayjsPeriod[]}
+ */
+export function expandPeriodRecurrence(
+	period: Period,
+	timeZone: string,
+	window: DayjsPeriod,
+): DayjsPeriod[] {
+	const { until, exceptions = [], ...rule } = period.recurrence as PeriodRecurrence
+	/* Occurrences are computed in "wall clock" time, using UTC Dayjs objects */
+	const start = _toWallClock(period.startAt)
+	const duration = _toWallClock(period.endAt, true).diff(start)
+	/* Wall clock times are within a day of real ones */
+	const localWindow = {
+		startAt: dayjs.utc(window.startAt.valueOf())
+			.subtract(1, "day")
+			.subtract(duration),
+		endAt: dayjs.utc(window.endAt.valueOf()).add(1, "day"),
+	}
+	const occurrences = expandRecurrenceRule(
+		{ ...rule, until: until && _toWallClock(until, true) },
+		start,
+		localWindow,
+	)
+	return occurrences
+		.filter((occurrence) => !exceptions.some((exception) => (
+			_isException(occurrence, exception)
+		)))
+		.map((occurrence) => ({
+			startAt: _fromWallClock(occurrence, timeZone),
+			endAt: _fromWallClock(occurrence.add(duration), timeZone),
+		}))
+		.filter((occurrence) => (
+			occurrence.startAt.valueOf() < window.endAt.valueOf()
+			&& occurrence.endAt.valueOf() > window.startAt.valueOf()
+		))
+}
+
+/**
+ * Convert a period which doesn't recur (other than yearly, without years) to an event.
+ * @param {Period} period A valid period.
+ * @param {string} timeZone The time zone of the configuration.
+ * @param {Date} now The moment giving the year of periods without years. Default value is now.
+ * @returns {DayjsPeriod}
+ */
+export function getPeriodAsEvent(period: Period, timeZone: string, now?: Date): DayjsPeriod {
+	/* Periods without years are the ones of the current year */
+	const year = dayjs(now).year()
+	const format = (moment: PeriodMoment) => (
+		dayjs({ ...moment, year: moment.year ?? year } as never).format("YYYY-MM-DD HH:mm")
+	)
+	/* Transit through string since dayjs.tz with object parsing is bugged */
+	let startAt = dayjs.tz(format(period.startAt), timeZone)
+	let endAt = dayjs.tz(format(period.endAt), timeZone)
+
+	/* If no hours defined, use full days */
+	if (period.startAt.hour == null) {
+		startAt = startAt.startOf("day")
+	}
+	if (period.endAt.hour == null) {
+		endAt = endAt.endOf("day")
+	}
+
+	/* Can only happen if no years were defined: push endAt to next year */
+	if (endAt.isBefore(startAt)) {
+		endAt = endAt.add(1, "year")
+	}
+	return { startAt, endAt }
+}
+
+/**
+ * Convert unavailable periods to events, recurring ones only within a search window.
+ * @param {Period[]} unavailablePeriods The unavailable periods of the configuration.
+ * @param {string} timeZone The time zone of the configuration.
+ * @param {DayjsPeriod} searchWindow The window of the search.
+ * @param {Date} now The moment giving the year of periods without years. Default value is now.
+ * @returns {DayjsPeriod[]}
+ */
+export function getUnavailablePeriodsAsEvents(
+	unavailablePeriods: Period[],
+	timeZone: string,
+	searchWindow: DayjsPeriod,
+	now?: Date,
+): DayjsPeriod[] {
+	return unavailablePeriods.reduce((events: DayjsPeriod[], unavailablePeriod) => events.concat(
+		unavailablePeriod.recurrence
+			? expandPeriodRecurrence(unavailablePeriod, timeZone, searchWindow)
+			: getPeriodAsEvent(unavailablePeriod, timeZone, now)
+	), [])
+}
+
+/* Without hour, a moment starts its day, or ends it when it is the end of a period */
+function _toWallClock(periodMoment: PeriodMoment, isEnd = false): Dayjs {
+	const { year, month, day, hour, minute = 0 } = periodMoment
+	const moment = dayjs.utc(Date.UTC(year as number, month, day, hour ?? 0, minute))
+	return hour == null && isEnd ? moment.endOf("day") : moment
+}
+
+/* Transit through string since dayjs.tz with object parsing is bugged */
+function _fromWallClock(moment: Dayjs, timeZone: string): Dayjs {
+	return dayjs.tz(moment.format("YYYY-MM-DD HH:mm:ss.SSS"), timeZone)
+}
+
+/* Without hour, an exception skips every occurrence starting that day */
+function _isException(occurrence: Dayjs, exception: PeriodMoment): boolean {
+	return exception.hour == null
+		? occurrence.isSame(_toWallClock(exception), "day")
+		: occurrence.isSame(_toWallClock(exception))
+}
+
+function _isDatedMomentValid(periodMoment: PeriodMoment): boolean {
+	return Boolean(periodMoment) && periodMoment.year != null && isPeriodMomentValid(periodMoment)
+}
@@ -0,0 +1,171 @@
+import "../src/dayjs-setup"
+import dayjs from "dayjs"
+import MockDate from "mockdate"
+import { getAvailableTimeSlotsInCalendar } from "../src"
+import * as busyIntervals from "../src/busy-intervals"
+import { extractEventsFromCalendar } from "../src/events-extractors/extractor"
+import { DayjsPeriod } from "../src/types"
+
+const { createBusyIntervalIndex, findFirstIntervalEndingAfter } = busyIntervals
+
+import iCalTestLarge from "./resources/calendar-ical-large.json"
+
+const period = (startAt: string, endAt: string) => ({
+	startAt: dayjs(startAt),
+	endAt: dayjs(endAt),
+})
+
+const toISOStrings = (periods: DayjsPeriod[]) => periods.map(({ startAt, endAt }) => [
+	startAt.toISOString(),
+	endAt.toISOString(),
+])
+
+/* Count the reads of the intervals of an index and of their timestamps, i.e. the work done */
+const countReads = (index: busyIntervals.BusyIntervalIndex, counter: { reads: number }) => {
+	const count = <T>(values: T[]) => new Proxy(values, {
+		get: (target, key) => {
+			if (typeof key === "string" && (/^\d+$/).test(key)) {
+				counter.reads += 1
+			}
+			return Reflect.get(target, key)
+		},
+	})
+	return {
+		intervals: count(index.intervals),
+		startAts: count(index.startAts),
+		endAts: count(index.endAts),
+	}
+}
+
+/* The former preparation of the events of each shift: filtering, sorting and merging them all */
+const prepareEventsOfShift = (events: DayjsPeriod[], shift: DayjsPeriod) => events
+	.filter((event) => event.startAt.isBefore(shift.endAt) && event.endAt.isAfter(shift.startAt))
+	.sort((a, b) => (a.startAt.isAfter(b.startAt) ? 1 : -1))
+	.reduce((mergedEvents: DayjsPeriod[], event) => {
+		const previous = mergedEvents[mergedEvents.length - 1]
+		if (!previous || event.startAt.isAfter(previous.endAt)) {
+			mergedEvents.push(event)
+		} else if (event.endAt.isAfter(previous.endAt)) {
+			mergedEvents.splice(-1, 1, { startAt: previous.startAt, endAt: event.endAt })
+		}
+		return mergedEvents
+	}, [])
+
+/* The events of a shift found with an index: from its first interval not yet ended */
+const getIndexedEvents = (index: busyIntervals.BusyIntervalIndex, shift: DayjsPeriod) => {
+	const shiftEvents = []
+	let i = findFirstIntervalEndingAfter(index, shift.startAt.valueOf())
+	while (i < index.startAts.length && index.startAts[i] < shift.endAt.valueOf()) {
+		shiftEvents.push(index.intervals[i])
+		i += 1
+	}
+	return shiftEvents
+}
+
+/* The time taken by a function in milliseconds, measured as the "should run fast" case does */
+const measure = (run: () => void) => {
+	const start = Date.now()
+	run()
+	return Date.now() - start
+}
+
+/* Three shifts a day, from August to October */
+const quarterShifts = Array.from({ length: 92 }, (_, day) => ["08", "13", "18"].map((hour) => {
+	const date = dayjs("2020-08-01").add(day, "day")
+		.format("YYYY-MM-DD")
+	const startAt = dayjs.tz(`${date} ${hour}:00`, "Europe/Paris")
+	return { startAt, endAt: startAt.add(4, "hour") }
+})).reduce((shifts, shiftsOfDay) => shifts.concat(shiftsOfDay), [])
+
+describe("Busy intervals", () => {
+	afterEach(() => {
+		jest.restoreAllMocks()
+		MockDate.reset()
+	})
+	it("should sort and merge overlapping or adjacent periods without mutating them", () => {
+		const periods = [
+			period("2020-10-16T14:00:00.000Z", "2020-10-16T15:00:00.000Z"),
+			period("2020-10-16T09:00:00.000Z", "2020-10-16T10:00:00.000Z"),
+			period("2020-10-16T09:30:00.000Z", "2020-10-16T09:45:00.000Z"),
+			period("2020-10-16T10:00:00.000Z", "2020-10-16T11:00:00.000Z"),
+		]
+		const index = createBusyIntervalIndex(periods)
+		expect(toISOStrings(index.intervals)).toEqual([
+			["2020-10-16T09:00:00.000Z", "2020-10-16T11:00:00.000Z"],
+			["2020-10-16T14:00:00.000Z", "2020-10-16T15:00:00.000Z"],
+		])
+		expect(index.startAts).toEqual(index.intervals.map(({ startAt }) => startAt.valueOf()))
+		expect(index.endAts).toEqual(index.intervals.map(({ endAt }) => endAt.valueOf()))
+		expect(periods[1].endAt.toISOString()).toBe("2020-10-16T10:00:00.000Z")
+	})
+	it("should find the first interval not yet ended at a moment", () => {
+		const index = createBusyIntervalIndex([
+			period("2020-10-16T09:00:00.000Z", "2020-10-16T10:00:00.000Z"),
+			period("2020-10-16T14:00:00.000Z", "2020-10-16T15:00:00.000Z"),
+		])
+		const find = (moment: string) => findFirstIntervalEndingAfter(index, Date.parse(moment))
+		expect(find("2020-10-16T08:00:00.000Z")).toBe(0)
+		expect(find("2020-10-16T09:59:00.000Z")).toBe(0)
+		expect(find("2020-10-16T10:00:00.000Z")).toBe(1)
+		expect(find("2020-10-16T15:00:00.000Z")).toBe(2)
+		expect(findFirstIntervalEndingAfter(createBusyIntervalIndex([]), 0)).toBe(0)
+	})
+	it("should give the events of shifts without looking at every event for each shift", () => {
+		const events = extractEventsFromCalendar("Europe/Paris", "iCal", iCalTestLarge.data, {
+			searchWindow: period("2020-08-01T00:00:00.000+02:00", "2020-11-01T00:00:00.000+01:00"),
+		})
+		/* The former preparation being slow, it is only compared on the first days */
+		const firstShifts = quarterShifts.slice(0, 9)
+		const preparedEvents = firstShifts.map((shift) => (
+			toISOStrings(prepareEventsOfShift(events, shift))
+		))
+		const counter = { reads: 0 }
+		const index = countReads(createBusyIntervalIndex(events), counter)
+		const indexedEvents = firstShifts.map((shift) => (
+			toISOStrings(getIndexedEvents(index, shift))
+		))
+		expect(indexedEvents).toEqual(preparedEvents)
+		/* The former preparation looked at every event for each shift */
+		expect(counter.reads * 10).toBeLessThan(events.length * firstShifts.length)
+	})
+	it("should give the events of shifts faster than the former preparation", () => {
+		const events = extractEventsFromCalendar("Europe/Paris", "iCal", iCalTestLarge.data, {
+			searchWindow: period("2020-08-01T00:00:00.000+02:00", "2020-11-01T00:00:00.000+01:00"),
+		})
+		/* The former preparation taking seconds for a month, it is only timed on the first days */
+		const shifts = quarterShifts.slice(0, 9)
+		const formerDuration = measure(() => shifts.forEach((shift) => {
+			prepareEventsOfShift(events, shift)
+		}))
+		const indexDuration = measure(() => {
+			const index = createBusyIntervalIndex(events)
+			shifts.forEach((shift) => getIndexedEvents(index, shift))
+		})
+		expect(indexDuration * 10).toBeLessThan(formerDuration)
+	})
+	it("should search a quarter of a busy calendar reading few intervals for each shift", () => {
+		MockDate.set(new Date("2020-07-01T00:00:00.000Z"))
+		const counter = { reads: 0 }
+		jest.spyOn(busyIntervals, "createBusyIntervalIndex").mockImplementation((periods) => (
+			countReads(createBusyIntervalIndex(periods), counter)
+		))
+		const availablePeriods = [1, 2, 3, 4, 5, 6, 7].map((isoWeekDay) => ({
+			isoWeekDay,
+			shifts: ["08", "13", "18"].map((hour) => ({
+				startTime: `${hour}:00`,
+				endTime: `${Number(hour) + 4}:00`,
+			})),
+		}))
+		/* 276 shifts, the events used to be filtered and sorted for each of them */
+		const timeSlots = getAvailableTimeSlotsInCalendar({
+			calendarData: iCalTestLarge.data,
+			configuration: { timeZone: "Europe/Paris", timeSlotDuration: 15, availablePeriods },
+			from: new Date("2020-08-01T00:00:00.000+02:00"),
+			to: new Date("2020-11-01T00:00:00.000+01:00"),
+		})
+		/* A binary search for each shift, then the intervals around each slot */
+		expect(counter.reads).toBeLessThan((quarterShifts.length * 10) + (timeSlots.length * 2))
+		/* The calendar has 967 events, which each shift used to look at */
+		expect(counter.reads * 10).toBeLessThan(quarterShifts.length * 967)
+	})
+})
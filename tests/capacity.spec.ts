@@ -0,0 +1,87 @@
+import MockDate from "mockdate"
+import { getAvailableTimeSlotsInCalendar, isConfigurationValid } from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestSeatsJSON from "./resources/calendar-ical-seats.json"
+
+const iCalSeatsData = (iCalTestSeatsJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	availablePeriods: [{
+		isoWeekDay: 5,
+		shifts: [
+			{ startTime: "10:00", endTime: "12:00" },
+			{ startTime: "14:00", endTime: "15:00", capacity: 1 },
+		],
+	}],
+	capacity: 3,
+	timeZone: "Europe/Paris",
+}
+
+const searchSlots = (configuration: Record<string, unknown> = {}, onSkippedEvent = jest.fn()) => (
+	getAvailableTimeSlotsInCalendar({
+		calendarData: iCalSeatsData,
+		onSkippedEvent,
+		configuration: { ...baseConfiguration, ...configuration },
+		from: new Date("2020-10-16T00:00:00.000+02:00"),
+		to: new Date("2020-10-17T00:00:00.000+02:00"),
+	}).map((slot) => [slot.startAt.toISOString(), slot.remainingCapacity, Boolean(slot.isFull)])
+)
+
+describe("Time Slot Finder with a capacity", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should count one seat for each event overlapping a slot", () => {
+		expect(searchSlots()).toEqual([
+			["2020-10-16T08:00:00.000Z", 1, false],
+			["2020-10-16T09:00:00.000Z", 1, false],
+			["2020-10-16T12:00:00.000Z", 1, false],
+		])
+	})
+	it("should read the number of seats from an event property", () => {
+		const onSkippedEvent = jest.fn()
+		expect(searchSlots({ seatsProperty: "X-SEATS" }, onSkippedEvent)).toEqual([
+			["2020-10-16T09:00:00.000Z", 2, false],
+			["2020-10-16T12:00:00.000Z", 1, false],
+		])
+		expect(onSkippedEvent).toHaveBeenCalledWith({
+			index: 3,
+			eventId: "booking-4@test",
+			reason: "Invalid number of seats: many",
+		})
+	})
+	it("should flag full slots when they are kept", () => {
+		expect(searchSlots({ seatsProperty: "X-SEATS", keepFullSlots: true })).toEqual([
+			["2020-10-16T08:00:00.000Z", 0, true],
+			["2020-10-16T09:00:00.000Z", 2, false],
+			["2020-10-16T12:00:00.000Z", 1, false],
+		])
+	})
+	it("should keep unavailable periods blocking time", () => {
+		expect(searchSlots({
+			unavailablePeriods: [{
+				startAt: { year: 2020, month: 9, day: 16, hour: 14, minute: 0 },
+				endAt: { year: 2020, month: 9, day: 16, hour: 15, minute: 0 },
+			}],
+		})).toEqual([
+			["2020-10-16T08:00:00.000Z", 1, false],
+			["2020-10-16T09:00:00.000Z", 1, false],
+		])
+	})
+	it("should throw for invalid capacities", () => {
+		expect(() => isConfigurationValid({ ...baseConfiguration, capacity: 0 }))
+			.toThrowError(new TimeSlotsFinderError("Capacity must be an integer of at least 1"))
+		expect(() => isConfigurationValid({ ...baseConfiguration, capacity: 1.5 }))
+			.toThrowError(new TimeSlotsFinderError("Capacity must be an integer of at least 1"))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			availablePeriods: [{
+				isoWeekDay: 5,
+				shifts: [{ startTime: "10:00", endTime: "12:00", capacity: -1 }],
+			}],
+		})).toThrowError(new TimeSlotsFinderError(
+			`Capacity of daily shift 10:00 - 12:00 for available period nº1 must be an integer of at least 1`,
+		))
+	})
+})
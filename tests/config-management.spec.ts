@@ -4,7 +4,7 @@ import {
 	isConfigurationValid,
 } from "../src/config-management"
 import { TimeSlotsFinderError } from "../src/errors"
-import { Shift } from "../src"
+import { AvailabilityOverrideMode, Shift } from "../src"
 
 describe("#_mergeOverlappingShifts", () => {
 	it("should handle too small arrays properly", () => {
@@ -42,6 +42,31 @@ describe("#_mergeOverlappingShifts", () => {
 			{ startTime: "14:00", endTime: "18:00" },
 		])
 	})
+	it("should merge overnight shifts lasting less than a day", () => {
+		expect(_mergeOverlappingShifts([
+			{ startTime: "22:00", endTime: "02:00" },
+			{ startTime: "20:00", endTime: "23:00" },
+		])).toEqual([
+			{ startTime: "20:00", endTime: "02:00" },
+		])
+		expect(_mergeOverlappingShifts([
+			{ startTime: "08:00", endTime: "12:00" },
+			{ startTime: "11:00", endTime: "09:00" },
+		])).toEqual([
+			{ startTime: "08:00", endTime: "12:00" },
+			{ startTime: "11:00", endTime: "09:00" },
+		])
+	})
+	it("should only merge adjacent shifts producing the same slots", () => {
+		expect(_mergeOverlappingShifts([
+			{ startTime: "08:00", endTime: "12:00", timeSlotDuration: 60 },
+			{ startTime: "12:00", endTime: "14:00", timeSlotDuration: 60 },
+			{ startTime: "14:00", endTime: "18:00", timeSlotDuration: 20 },
+		])).toEqual([
+			{ startTime: "08:00", endTime: "14:00", timeSlotDuration: 60 },
+			{ startTime: "14:00", endTime: "18:00", timeSlotDuration: 20 },
+		])
+	})
 	it("should not mutate the passed array", () => {
 		const smallArray = [{ startTime: "08:00", endTime: "12:00" }]
 		const normalArray = [
@@ -388,11 +413,11 @@ describe("#isConfigurationValid", () => {
 			availablePeriods: [{
 				isoWeekDay: 1,
 				shifts: [{
-					startTime: "21:00",
+					startTime: "19:00",
 					endTime: "19:00",
 				}],
 			}],
-		})).toThrowError(new TimeSlotsFinderError(`Daily shift 21:00 - 19:00 for available period nº1 is invalid`))
+		})).toThrowError(new TimeSlotsFinderError(`Daily shift 19:00 - 19:00 for available period nº1 is invalid`))
 		expect(() => isConfigurationValid({
 			timeSlotDuration: 12,
 			timeZone: "Europe/Paris",
@@ -419,6 +444,166 @@ describe("#isConfigurationValid", () => {
 			}],
 		})).toThrowError(new TimeSlotsFinderError(`Some shifts are overlapping for available period nº1`))
 	})
+	it("should throw for invalid recurrences of unavailable periods", () => {
+		const configuration = {
+			timeSlotDuration: 12,
+			timeZone: "Europe/Paris",
+			availablePeriods: [],
+		}
+		const startAt = { year: 2020, month: 9, day: 16, hour: 12, minute: 0 }
+		const endAt = { year: 2020, month: 9, day: 16, hour: 14, minute: 0 }
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt: { month: 9, day: 16 },
+				endAt: { month: 9, day: 17 },
+				recurrence: { frequency: "WEEKLY" },
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Recurring unavailable period nº1 must have years`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{ startAt, endAt, recurrence: { frequency: "HOURLY" as never } }],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid recurrence frequency for unavailable period nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt,
+				endAt,
+				recurrence: { frequency: "WEEKLY", interval: 0 },
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid recurrence interval for unavailable period nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt,
+				endAt,
+				recurrence: { frequency: "MONTHLY", byWeekDay: [{ isoWeekDay: 1, ordinal: 0 }] },
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid recurrence byWeekDay for unavailable period nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt,
+				endAt,
+				recurrence: { frequency: "DAILY", until: { month: 11, day: 31 } },
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid recurrence until for unavailable period nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt,
+				endAt,
+				recurrence: { frequency: "DAILY", exceptions: [{ year: 2020, month: 1, day: 30 }] },
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid recurrence exceptions for unavailable period nº1`))
+		expect(isConfigurationValid({
+			...configuration,
+			unavailablePeriods: [{
+				startAt,
+				endAt,
+				recurrence: {
+					frequency: "MONTHLY",
+					interval: 3,
+					count: 4,
+					byWeekDay: [{ isoWeekDay: 5, ordinal: -1 }],
+					exceptions: [{ year: 2021, month: 0, day: 29 }],
+				},
+			}],
+		})).toBe(true)
+	})
+	it("should throw for invalid availability overrides", () => {
+		const configuration = {
+			timeSlotDuration: 12,
+			timeZone: "Europe/Paris",
+			availablePeriods: [{
+				isoWeekDay: 1,
+				shifts: [{ startTime: "09:00", endTime: "12:00" }],
+			}],
+		}
+		const shifts = [{ startTime: "14:00", endTime: "16:00" }]
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: {} as never,
+		})).toThrowError(new TimeSlotsFinderError("A list of availability overrides is expected"))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{ startDate: "2020-02-30", shifts }],
+		})).toThrowError(new TimeSlotsFinderError(`Dates must be in the YYYY-MM-DD format for availability override nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{ startDate: "2020-10-19", endDate: "2020-10-18", shifts }],
+		})).toThrowError(new TimeSlotsFinderError(`End date is before start date for availability override nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{ startDate: "2020-10-19", mode: "remove" as never, shifts }],
+		})).toThrowError(new TimeSlotsFinderError(`Invalid mode for availability override nº1: remove`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{
+				startDate: "2020-10-19",
+				shifts: [
+					{ startTime: "14:00", endTime: "16:00" },
+					{ startTime: "15:00", endTime: "17:00" },
+				],
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Some shifts are overlapping for availability override nº1`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [
+				{ startDate: "2020-10-19", endDate: "2020-10-21", shifts },
+				{ startDate: "2020-10-21", shifts },
+			],
+		})).toThrowError(new TimeSlotsFinderError(`Availability overrides nº1 and nº2 are overlapping`))
+		expect(() => isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{
+				startDate: "2020-10-18",
+				endDate: "2020-10-19",
+				mode: AvailabilityOverrideMode.add,
+				shifts: [{ startTime: "11:00", endTime: "13:00" }],
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`Shifts of availability override nº1 are overlapping weekly shifts`))
+		expect(isConfigurationValid({
+			...configuration,
+			availabilityOverrides: [{
+				startDate: "2020-10-19",
+				mode: AvailabilityOverrideMode.add,
+				shifts: [{ startTime: "12:00", endTime: "13:00" }],
+			}, {
+				startDate: "2020-10-20",
+				endDate: "2020-12-31",
+				shifts: [],
+			}],
+		})).toBe(true)
+	})
+	it("should throw for invalid slot settings of available periods and shifts", () => {
+		const availablePeriod = {
+			isoWeekDay: 1,
+			shifts: [{ startTime: "09:00", endTime: "12:00" }],
+		}
+		const withPeriod = (period: Record<string, unknown>) => ({
+			timeSlotDuration: 12,
+			timeZone: "Europe/Paris",
+			availablePeriods: [{ ...availablePeriod, ...period }],
+		})
+		expect(() => isConfigurationValid(withPeriod({ timeSlotDuration: 0 })))
+			.toThrowError(new TimeSlotsFinderError(`Slot duration must be at least 1 minute for available period nº1`))
+		expect(() => isConfigurationValid(withPeriod({ minAvailableTimeAfterSlot: -1 })))
+			.toThrowError(new TimeSlotsFinderError(`Time after a slot must be at least 0 minutes for available period nº1`))
+		expect(() => isConfigurationValid(withPeriod({
+			shifts: [{ startTime: "09:00", endTime: "12:00", slotStartMinuteStep: 45 }],
+		}))).toThrowError(new TimeSlotsFinderError(`Slot start minute step must be contained between 1 and 30 for daily shift 09:00 - 12:00 for available period nº1`))
+		expect(() => isConfigurationValid(withPeriod({
+			shifts: [{ startTime: "09:00", endTime: "12:00", minAvailableTimeBeforeSlot: -5 }],
+		}))).toThrowError(new TimeSlotsFinderError(`Time before a slot must be at least 0 minutes for daily shift 09:00 - 12:00 for available period nº1`))
+		expect(isConfigurationValid(withPeriod({
+			minAvailableTimeBeforeSlot: 30,
+			shifts: [
+				{ startTime: "09:00", endTime: "12:00", timeSlotDuration: 60 },
+				{ startTime: "12:00", endTime: "18:00", timeSlotDuration: 20 },
+			],
+		}))).toBe(true)
+	})
 	it("should return true for valid configurations", () => {
 		expect(isConfigurationValid({
 			timeSlotDuration: 12,
@@ -0,0 +1,93 @@
+import dayjs from "dayjs"
+import MockDate from "mockdate"
+import { getAvailableTimeSlotsInCalendar, isConfigurationValid } from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+import { extractEventsFromCalendar } from "../src/events-extractors/extractor"
+import { padEvents } from "../src/event-padding"
+
+import iCalTestPaddingJSON from "./resources/calendar-ical-padding.json"
+
+const iCalPaddingData = (iCalTestPaddingJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	slotStartMinuteStep: 30,
+	availablePeriods: [{
+		isoWeekDay: 5,
+		shifts: [{ startTime: "09:00", endTime: "19:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+const searchSlots = (configuration: Record<string, unknown>) => getAvailableTimeSlotsInCalendar({
+	calendarData: iCalPaddingData,
+	configuration: { ...baseConfiguration, ...configuration },
+	from: new Date("2020-10-16T00:00:00.000+02:00"),
+	to: new Date("2020-10-17T00:00:00.000+02:00"),
+}).map((slot) => slot.startAt.toISOString())
+
+describe("Time Slot Finder with padding around calendar events", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should read the details of iCal events when needed", () => {
+		const [visit, call, workshop] = extractEventsFromCalendar(
+			"Europe/Paris",
+			"iCal",
+			iCalPaddingData,
+			{ eventDetails: true },
+		)
+		expect(visit.location).toBe("12 rue de Rivoli, Paris")
+		expect(call.summary).toBe("Internal call")
+		expect(workshop.categories).toEqual(["Training", "Team"])
+		expect(extractEventsFromCalendar("Europe/Paris", "iCal", iCalPaddingData)[0].summary)
+			.toBeFalsy()
+	})
+	it("should pad every calendar event", () => {
+		expect(searchSlots({ eventPadding: { before: 30, after: 30 } })).toEqual([
+			"2020-10-16T09:30:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+			"2020-10-16T15:30:00.000Z",
+		])
+	})
+	it("should apply the padding of the first rule matched by events", () => {
+		expect(searchSlots({
+			eventPadding: {
+				before: 15,
+				after: 15,
+				rules: [
+					{ hasLocation: true, before: 30, after: 30 },
+					{ summaryPattern: "^internal", before: 0, after: 0 },
+					{ categories: ["TRAINING"], after: 60 },
+				],
+			},
+		})).toEqual([
+			"2020-10-16T09:30:00.000Z",
+			"2020-10-16T11:30:00.000Z",
+			"2020-10-16T12:30:00.000Z",
+			"2020-10-16T16:00:00.000Z",
+		])
+	})
+	it("should not mutate events without padding", () => {
+		const event = {
+			startAt: dayjs("2020-10-16T08:00:00.000Z"),
+			endAt: dayjs("2020-10-16T09:00:00.000Z"),
+		}
+		expect(padEvents([event], { rules: [{ summaryPattern: /visit/ }] })[0]).toBe(event)
+	})
+	it("should throw for invalid padding", () => {
+		expect(() => isConfigurationValid({ ...baseConfiguration, eventPadding: { after: -5 } }))
+			.toThrowError(new TimeSlotsFinderError(`Padding after events must be at least 0 minutes`))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			eventPadding: { rules: {} as never },
+		})).toThrowError(new TimeSlotsFinderError("A list of event padding rules is expected"))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			eventPadding: { rules: [{ before: 10 }, { summaryPattern: "(call" }] },
+		})).toThrowError(new TimeSlotsFinderError(`Invalid summary pattern for event padding rule nº2`))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			eventPadding: { rules: [{ categories: "Training" as never }] },
+		})).toThrowError(new TimeSlotsFinderError(`Categories must be a list of strings for event padding rule nº1`))
+	})
+})
@@ -0,0 +1,148 @@
+import dayjs from "dayjs"
+import MockDate from "mockdate"
+import {
+	DayExplanation,
+	getAvailableTimeSlotsInCalendar,
+	TimelineEntryType,
+	TimeSlotsFinderConfiguration,
+} from "../src"
+
+import iCalTestPaddingJSON from "./resources/calendar-ical-padding.json"
+
+/* Events from 10:00 to 11:00, 13:00 to 13:30 and 16:00 to 17:00 (Paris time) on 2020-10-16 */
+const iCalData = (iCalTestPaddingJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	slotStartMinuteStep: 15,
+	availablePeriods: [{
+		isoWeekDay: 5,
+		shifts: [{ startTime: "09:00", endTime: "15:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+/* Search Friday 2020-10-16 and Saturday 2020-10-17, giving the explained days */
+const explainSearch = (configuration: TimeSlotsFinderConfiguration) => {
+	const explanations: DayExplanation[] = []
+	const timeSlots = getAvailableTimeSlotsInCalendar({
+		calendarData: iCalData,
+		configuration,
+		from: new Date("2020-10-16T00:00:00.000+02:00"),
+		to: new Date("2020-10-18T00:00:00.000+02:00"),
+		onDayExplained: (explanation) => explanations.push(explanation),
+	})
+	return { timeSlots, explanations }
+}
+
+/* The entries of the timeline of the first shift of Friday, with Paris times */
+const getTimeline = (explanations: DayExplanation[]) => explanations[0].shifts[0].timeline
+	.map(({ type, startAt, endAt }) => [
+		type,
+		dayjs(startAt).tz("Europe/Paris")
+			.format("HH:mm"),
+		dayjs(endAt).tz("Europe/Paris")
+			.format("HH:mm"),
+	])
+
+describe("Explanations of the days of a search", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:00:00.000Z")))
+	afterAll(() => MockDate.reset())
+	it("should give the timeline of each shift, with the calendar events and their details", () => {
+		const { timeSlots, explanations } = explainSearch(baseConfiguration)
+		expect(timeSlots).toEqual(getAvailableTimeSlotsInCalendar({
+			calendarData: iCalData,
+			configuration: baseConfiguration,
+			from: new Date("2020-10-16T00:00:00.000+02:00"),
+			to: new Date("2020-10-18T00:00:00.000+02:00"),
+		}))
+		expect(explanations.map(({ date, shifts }) => [date, shifts.length]))
+			.toEqual([["2020-10-16", 1], ["2020-10-17", 0]])
+		const [{ shifts: [shift] }] = explanations
+		expect(shift.startAt).toEqual(new Date("2020-10-16T09:00:00.000+02:00"))
+		expect(shift.endAt).toEqual(new Date("2020-10-16T15:00:00.000+02:00"))
+		expect(getTimeline(explanations)).toEqual([
+			[TimelineEntryType.slot, "09:00", "10:00"],
+			[TimelineEntryType.calendarEvent, "10:00", "11:00"],
+			[TimelineEntryType.slot, "11:00", "13:00"],
+			[TimelineEntryType.calendarEvent, "13:00", "13:30"],
+			[TimelineEntryType.slot, "13:30", "14:30"],
+			[TimelineEntryType.gap, "14:30", "15:00"],
+		])
+		expect(shift.timeline[1].event).toEqual({
+			startAt: new Date("2020-10-16T10:00:00.000+02:00"),
+			endAt: new Date("2020-10-16T11:00:00.000+02:00"),
+			eventId: "visit-1@test",
+			summary: "Client visit",
+			location: "12 rue de Rivoli, Paris",
+			categories: [],
+		})
+	})
+	it("should explain the booking window, the time around slots and unavailable periods", () => {
+		const { explanations } = explainSearch({
+			...baseConfiguration,
+			minAvailableTimeBeforeSlot: 15,
+			minAvailableTimeAfterSlot: 15,
+			/* The first slot can start at 09:30 on Friday */
+			minTimeBeforeFirstSlot: (16 * 60) + 15,
+			unavailablePeriods: [{
+				startAt: { year: 2020, month: 9, day: 16, hour: 14, minute: 30 },
+				endAt: { year: 2020, month: 9, day: 16, hour: 15, minute: 0 },
+			}],
+		})
+		expect(getTimeline(explanations)).toEqual([
+			[TimelineEntryType.bookingWindow, "09:00", "09:30"],
+			[TimelineEntryType.gap, "09:30", "09:45"],
+			[TimelineEntryType.buffer, "09:45", "10:00"],
+			[TimelineEntryType.calendarEvent, "10:00", "11:00"],
+			[TimelineEntryType.buffer, "11:00", "11:15"],
+			[TimelineEntryType.slot, "11:15", "12:15"],
+			[TimelineEntryType.gap, "12:15", "12:45"],
+			[TimelineEntryType.buffer, "12:45", "13:00"],
+			[TimelineEntryType.calendarEvent, "13:00", "13:30"],
+			[TimelineEntryType.buffer, "13:30", "13:45"],
+			[TimelineEntryType.gap, "13:45", "14:15"],
+			[TimelineEntryType.buffer, "14:15", "14:30"],
+			[TimelineEntryType.unavailablePeriod, "14:30", "15:00"],
+		])
+	})
+	it("should explain the slots found but not offered", () => {
+		const { explanations } = explainSearch({ ...baseConfiguration, capacity: 1 })
+		expect(getTimeline(explanations)).toEqual([
+			[TimelineEntryType.slot, "09:00", "10:00"],
+			[TimelineEntryType.rejectedSlot, "10:00", "11:00"],
+			[TimelineEntryType.slot, "11:00", "13:00"],
+			[TimelineEntryType.rejectedSlot, "13:00", "14:00"],
+			[TimelineEntryType.slot, "14:00", "15:00"],
+		])
+	})
+	it("should explain the shifts merged by the search once, with the ones started earlier", () => {
+		const { timeSlots, explanations } = explainSearch({
+			...baseConfiguration,
+			/* From Thursday 20:00 to Friday 02:00, then from 02:00 to 06:00 */
+			availablePeriods: [
+				{ isoWeekDay: 4, shifts: [{ startTime: "20:00", endTime: "02:00" }] },
+				{ isoWeekDay: 5, shifts: [{ startTime: "02:00", endTime: "06:00" }] },
+			],
+		})
+		expect(timeSlots).toHaveLength(6)
+		expect(explanations.map(({ shifts }) => shifts.length)).toEqual([1, 0])
+		const [{ shifts: [shift] }] = explanations
+		expect(shift.startAt).toEqual(new Date("2020-10-15T20:00:00.000+02:00"))
+		expect(shift.endAt).toEqual(new Date("2020-10-16T06:00:00.000+02:00"))
+		expect(getTimeline(explanations)).toEqual([
+			[TimelineEntryType.bookingWindow, "20:00", "00:00"],
+			[TimelineEntryType.slot, "00:00", "06:00"],
+		])
+	})
+	it("should explain the shifts of days out of the booking window", () => {
+		const { timeSlots, explanations } = explainSearch({
+			...baseConfiguration,
+			minTimeBeforeFirstSlot: 3 * 24 * 60,
+		})
+		expect(timeSlots).toEqual([])
+		expect(getTimeline(explanations)).toEqual([
+			[TimelineEntryType.bookingWindow, "09:00", "15:00"],
+		])
+	})
+})
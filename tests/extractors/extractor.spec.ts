@@ -1,5 +1,10 @@
+import dayjs from "dayjs"
 import { mocked } from "ts-jest/utils"
-import { extractEventsFromCalendar } from "../../src/events-extractors/extractor"
+import {
+	extractEventsFromCalendar,
+	registerCalendarExtractor,
+	unregisterCalendarExtractor,
+} from "../../src/events-extractors/extractor"
 import { TimeSlotsFinderError } from "../../src/errors"
 import { extractEventsFromICal } from "../../src/events-extractors/ical"
 import { TimeSlotsFinderCalendarFormat } from "../../src"
@@ -19,6 +24,16 @@ describe("Events extractor", () => {
 			.toThrowError(new TimeSlotsFinderError("Invalid format for calendar data: incorrect"))
 		expect(() => extractEventsFromCalendar("Europe/Paris", null as never, "something"))
 			.toThrowError(new TimeSlotsFinderError("Invalid format for calendar data: null"))
+		/* The properties every object has aren't formats */
+		expect(() => extractEventsFromCalendar("Europe/Paris", "toString", "something"))
+			.toThrowError(new TimeSlotsFinderError("Invalid format for calendar data: toString"))
+	})
+	it("should throw if parsed data is provided for a text format", () => {
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			["vcalendar", [], []],
+		)).toThrowError(new TimeSlotsFinderError("Calendar data must be a string for format: iCal"))
 	})
 	it("should use the right function for extract data depending on the format", () => {
 		mocked(extractEventsFromICal).mockImplementationOnce(() => [])
@@ -27,4 +42,86 @@ describe("Events extractor", () => {
 		extractEventsFromCalendar("Europe/Paris", TimeSlotsFinderCalendarFormat.iCal, iCalData)
 		expect(mocked(extractEventsFromICal).mock.calls.length).toBe(1)
 	})
+	it("should use registered extractors for custom formats", () => {
+		const extractor = jest.fn(() => [{
+			startAt: new Date("2020-10-16T08:00:00.000Z"),
+			endAt: new Date("2020-10-16T09:00:00.000Z"),
+		}, {
+			startAt: new Date("2020-10-18T08:00:00.000Z"),
+			endAt: new Date("2020-10-18T09:00:00.000Z"),
+		}])
+		registerCalendarExtractor("bookings", extractor)
+		const events = extractEventsFromCalendar("Europe/Paris", "bookings", "some data", {
+			searchWindow: {
+				startAt: dayjs("2020-10-16T00:00:00.000Z"),
+				endAt: dayjs("2020-10-17T00:00:00.000Z"),
+			},
+		})
+		unregisterCalendarExtractor("bookings")
+
+		expect(extractor).toHaveBeenCalledWith("some data", "Europe/Paris", {
+			searchWindow: {
+				startAt: new Date("2020-10-16T00:00:00.000Z"),
+				endAt: new Date("2020-10-17T00:00:00.000Z"),
+			},
+		})
+		/* Periods outside the search window are ignored */
+		expect(events.map((event) => event.startAt.toISOString())).toEqual([
+			"2020-10-16T08:00:00.000Z",
+		])
+		expect(events[0].startAt.format("Z")).toBe("+02:00")
+		expect(() => extractEventsFromCalendar("Europe/Paris", "bookings", "some data"))
+			.toThrowError(new TimeSlotsFinderError("Invalid format for calendar data: bookings"))
+	})
+	it("should throw if an extractor cannot be registered or unregistered", () => {
+		expect(() => registerCalendarExtractor("", () => []))
+			.toThrowError(new TimeSlotsFinderError("Invalid calendar format: "))
+		expect(() => registerCalendarExtractor("bookings", null as never))
+			.toThrowError(new TimeSlotsFinderError(
+				"Invalid extractor for calendar format: bookings",
+			))
+		expect(() => registerCalendarExtractor(TimeSlotsFinderCalendarFormat.iCal, () => []))
+			.toThrowError(new TimeSlotsFinderError("Calendar format already registered: iCal"))
+		expect(() => unregisterCalendarExtractor(TimeSlotsFinderCalendarFormat.iCal))
+			.toThrowError(new TimeSlotsFinderError(
+				"Built-in calendar format cannot be unregistered: iCal",
+			))
+		expect(() => unregisterCalendarExtractor("bookings"))
+			.toThrowError(new TimeSlotsFinderError("Calendar format not registered: bookings"))
+		registerCalendarExtractor("bookings", () => [])
+		expect(() => registerCalendarExtractor("bookings", () => []))
+			.toThrowError(new TimeSlotsFinderError("Calendar format already registered: bookings"))
+		unregisterCalendarExtractor("bookings")
+	})
+	it("should register formats named as the properties every object has", () => {
+		expect(() => unregisterCalendarExtractor("constructor"))
+			.toThrowError(new TimeSlotsFinderError("Calendar format not registered: constructor"))
+		registerCalendarExtractor("constructor", () => [{
+			startAt: new Date("2020-10-16T08:00:00.000Z"),
+			endAt: new Date("2020-10-16T09:00:00.000Z"),
+		}])
+		expect(extractEventsFromCalendar("Europe/Paris", "constructor", "some data").length).toBe(1)
+		unregisterCalendarExtractor("constructor")
+	})
+	it("should throw if a registered extractor returns invalid periods", () => {
+		registerCalendarExtractor("bookings", (data) => JSON.parse(data))
+		expect(() => extractEventsFromCalendar("Europe/Paris", "bookings", "{}"))
+			.toThrowError(new TimeSlotsFinderError(
+				"Extractor for calendar format bookings must return an array",
+			))
+		expect(() => extractEventsFromCalendar("Europe/Paris", "bookings", "[{}]"))
+			.toThrowError(new TimeSlotsFinderError(
+				"Period nº1 extracted for calendar format bookings is invalid",
+			))
+		registerCalendarExtractor("reversed", () => [{
+			startAt: new Date("2020-10-16T09:00:00.000Z"),
+			endAt: new Date("2020-10-16T08:00:00.000Z"),
+		}])
+		expect(() => extractEventsFromCalendar("Europe/Paris", "reversed", "some data"))
+			.toThrowError(new TimeSlotsFinderError(
+				"Period nº1 extracted for calendar format reversed is invalid",
+			))
+		unregisterCalendarExtractor("bookings")
+		unregisterCalendarExtractor("reversed")
+	})
 })
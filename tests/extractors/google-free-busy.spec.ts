@@ -0,0 +1,106 @@
+import dayjs from "dayjs"
+
+import { extractEventsFromCalendar } from "../../src/events-extractors/extractor"
+import { DayjsPeriod, GoogleFreeBusyResponse } from "../../src/types"
+
+import googleFreeBusyJSON from "../resources/calendar-google-free-busy.json"
+import { TimeSlotsFinderCalendarFormat } from "../../src"
+import { TimeSlotsFinderError } from "../../src/errors"
+
+const freeBusyData = (googleFreeBusyJSON as unknown as { data: GoogleFreeBusyResponse }).data
+
+const toISOStrings = (periods: DayjsPeriod[]) => periods.map(({ startAt, endAt }) => (
+	[startAt.toISOString(), endAt.toISOString()]
+))
+
+describe("Google freeBusy extractor", () => {
+	it("should extract the busy periods of all the calendars", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			freeBusyData,
+			{ onSkippedEvent },
+		)
+		expect(toISOStrings(events)).toEqual([
+			["2020-10-15T08:00:00.000Z", "2020-10-15T09:30:00.000Z"],
+			["2020-10-16T12:00:00.000Z", "2020-10-16T13:00:00.000Z"],
+			["2020-10-15T12:00:00.000Z", "2020-10-15T13:00:00.000Z"],
+		])
+		expect(events[0].startAt.format("HH:mm Z")).toBe("10:00 +02:00")
+		expect(onSkippedEvent).toHaveBeenCalledTimes(1)
+		expect(onSkippedEvent).toHaveBeenCalledWith({
+			index: 2,
+			reason: "Invalid busy period: 2020-10-16T16:00:00Z/not a date",
+		})
+	})
+	it("should skip the busy periods with dates that do not exist", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			{
+				calendars: {
+					"owner@example.com": {
+						busy: [
+							{ start: "2020-02-30T10:00:00Z", end: "2020-02-30T11:00:00Z" },
+							{ start: "2020-10-15T08:00:00Z", end: "2020-10-15T24:30:00Z" },
+							{ start: "2020-10-15T08:00:00Z", end: "2020-10-15T09:30:00Z" },
+						],
+					},
+				},
+			},
+			{ onSkippedEvent },
+		)
+		expect(toISOStrings(events)).toEqual([
+			["2020-10-15T08:00:00.000Z", "2020-10-15T09:30:00.000Z"],
+		])
+		expect(onSkippedEvent.mock.calls.map(([{ reason }]) => reason)).toEqual([
+			"Invalid busy period: 2020-02-30T10:00:00Z/2020-02-30T11:00:00Z",
+			"Invalid busy period: 2020-10-15T08:00:00Z/2020-10-15T24:30:00Z",
+		])
+	})
+	it("should accept a JSON string and only keep periods in the search window", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			JSON.stringify(freeBusyData),
+			{
+				searchWindow: {
+					startAt: dayjs("2020-10-16T00:00:00.000Z"),
+					endAt: dayjs("2020-10-17T00:00:00.000Z"),
+				},
+			},
+		)
+		expect(toISOStrings(events)).toEqual([
+			["2020-10-16T12:00:00.000Z", "2020-10-16T13:00:00.000Z"],
+		])
+	})
+	it("should throw for invalid responses and calendars in error", () => {
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			"{",
+		)).toThrowError(new TimeSlotsFinderError(
+			"Invalid Google freeBusy calendar data: malformed JSON",
+		))
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			{ kind: "calendar#freeBusy" } as unknown as GoogleFreeBusyResponse,
+		)).toThrowError(new TimeSlotsFinderError(
+			"Invalid Google freeBusy calendar data: calendars expected",
+		))
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			{
+				calendars: {
+					"unknown@example.com": { errors: [{ domain: "global", reason: "notFound" }] },
+				},
+			},
+		)).toThrowError(new TimeSlotsFinderError(
+			"Google freeBusy error for calendar unknown@example.com: notFound",
+		))
+	})
+})
@@ -5,12 +5,22 @@ import { extractEventsFromCalendar } from "../../src/events-extractors/extractor
 import iCalTestJSON from "../resources/calendar-ical.json"
 import iCalTestEmptyJSON from "../resources/calendar-ical-empty.json"
 import iCalTestOffsetJSON from "../resources/calendar-ical-offset.json"
+import iCalTestRecurringJSON from "../resources/calendar-ical-recurring.json"
+import iCalTestStatusesJSON from "../resources/calendar-ical-statuses.json"
+import iCalTestDatesJSON from "../resources/calendar-ical-dates.json"
+import iCalTestTimeZonesJSON from "../resources/calendar-ical-time-zones.json"
+import iCalTestFreeBusyJSON from "../resources/calendar-ical-free-busy.json"
 import { TimeSlotsFinderCalendarFormat } from "../../src"
 import MockDate from "mockdate"
 
 const iCalData = (iCalTestJSON as unknown as { data: string }).data
 const iCalEmptyData = (iCalTestEmptyJSON as unknown as { data: string }).data
 const iCalOffsetData = (iCalTestOffsetJSON as unknown as { data: string }).data
+const iCalRecurringData = (iCalTestRecurringJSON as unknown as { data: string }).data
+const iCalStatusesData = (iCalTestStatusesJSON as unknown as { data: string }).data
+const iCalDatesData = (iCalTestDatesJSON as unknown as { data: string }).data
+const iCalTimeZonesData = (iCalTestTimeZonesJSON as unknown as { data: string }).data
+const iCalFreeBusyData = (iCalTestFreeBusyJSON as unknown as { data: string }).data
 
 describe("iCal calendar extractor", () => {
 	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
@@ -116,4 +126,275 @@ describe("iCal calendar extractor", () => {
 		expect(Array.isArray(events)).toBe(true)
 		expect(events.length).toBe(0)
 	})
+	it("should expand recurring events within the search window", () => {
+		const timeZone = "Europe/Paris"
+		const events = extractEventsFromCalendar(
+			timeZone,
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalRecurringData,
+			{
+				searchWindow: {
+					startAt: dayjs("2020-10-01T00:00:00.000+02:00"),
+					endAt: dayjs("2020-11-30T23:59:59.999+01:00"),
+				},
+			},
+		)
+		expect(events.map((event) => [event.startAt.toISOString(), event.endAt.toISOString()]))
+			.toEqual([
+				/* Weekly event: 13th is overridden, 20th is excluded, DST ends on the 25th */
+				["2020-10-06T08:00:00.000Z", "2020-10-06T09:00:00.000Z"],
+				["2020-10-27T09:00:00.000Z", "2020-10-27T10:00:00.000Z"],
+				["2020-11-03T09:00:00.000Z", "2020-11-03T10:00:00.000Z"],
+				/* Overriding instance of the weekly event */
+				["2020-10-14T12:00:00.000Z", "2020-10-14T13:00:00.000Z"],
+				/* Last working day of the month, first occurrence is before the window */
+				["2020-10-30T08:00:00.000Z", "2020-10-30T08:30:00.000Z"],
+				["2020-11-30T08:00:00.000Z", "2020-11-30T08:30:00.000Z"],
+				/* Every other day, plus an additional date */
+				["2020-11-01T08:00:00.000Z", "2020-11-01T08:30:00.000Z"],
+				["2020-11-03T08:00:00.000Z", "2020-11-03T08:30:00.000Z"],
+				["2020-11-05T08:00:00.000Z", "2020-11-05T08:30:00.000Z"],
+				["2020-11-10T12:00:00.000Z", "2020-11-10T12:30:00.000Z"],
+			])
+		events.forEach((event) => expect(event.startAt.format("Z")).toMatch(/^\+0[12]:00$/))
+	})
+	it("should only return recurring events overlapping the search window", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalRecurringData,
+			{
+				searchWindow: {
+					startAt: dayjs("2020-10-27T10:30:00.000+01:00"),
+					endAt: dayjs("2020-11-01T08:00:00.000Z"),
+				},
+			},
+		)
+		expect(events.map((event) => event.startAt.toISOString())).toEqual([
+			"2020-10-27T09:00:00.000Z",
+			"2020-10-30T08:00:00.000Z",
+		])
+	})
+	it("should expand recurring events without search window", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalRecurringData,
+		)
+		expect(events.length).toBe(11)
+		expect(events[4].startAt.toISOString()).toBe("2020-09-30T07:00:00.000Z")
+	})
+	it("should skip recurring events whose rule has invalid values", () => {
+		const rules = [
+			"FREQ=DAILY;INTERVAL=0;COUNT=3",
+			"FREQ=WEEKLY;BYDAY=MO,XX",
+			"FREQ=MONTHLY;BYMONTHDAY=0",
+			"FREQ=DAILY;COUNT=two",
+			"FREQ=DAILY;COUNT=3",
+		]
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			[
+				"BEGIN:VCALENDAR",
+				...rules.map((rule, index) => [
+					"BEGIN:VEVENT",
+					`UID:rule-${index}@test`,
+					"DTSTART:20201016T080000Z",
+					"DTEND:20201016T090000Z",
+					`RRULE:${rule}`,
+					"END:VEVENT",
+				].join("\n")),
+				"END:VCALENDAR",
+			].join("\n"),
+			{ onSkippedEvent },
+		)
+		expect(events.length).toBe(3)
+		const skippedEvents = onSkippedEvent.mock.calls
+			.map(([{ eventId, reason }]) => [eventId, reason])
+		expect(skippedEvents).toEqual([
+			["rule-0@test", "Invalid recurrence interval: FREQ=DAILY;INTERVAL=0;COUNT=3"],
+			["rule-1@test", "Invalid recurrence byWeekDay: FREQ=WEEKLY;BYDAY=MO,XX"],
+			["rule-2@test", "Invalid recurrence byMonthDay: FREQ=MONTHLY;BYMONTHDAY=0"],
+			["rule-3@test", "Invalid recurrence count: FREQ=DAILY;COUNT=two"],
+		])
+	})
+	it("should ignore transparent, cancelled and declined events by default", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalStatusesData,
+			{ eventBlockingPolicy: { ownerEmails: ["owner@example.com"] } },
+		)
+		expect(events.map((event) => event.startAt.toISOString())).toEqual([
+			"2020-10-16T07:00:00.000Z",
+			"2020-10-16T08:00:00.000Z",
+			"2020-10-16T14:00:00.000Z",
+			/* The second instance is cancelled */
+			"2020-10-16T15:00:00.000Z",
+		])
+	})
+	it("should consider declined invitations as busy without owner emails", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalStatusesData,
+		)
+		expect(events.map((event) => event.startAt.toISOString())).toContain(
+			"2020-10-16T13:00:00.000Z",
+		)
+	})
+	it("should apply the provided event blocking policy", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalStatusesData,
+			{
+				eventBlockingPolicy: {
+					ownerEmails: ["mailto:OWNER@example.com"],
+					tentativeBlocksTime: false,
+					transparentBlocksTime: true,
+					cancelledBlocksTime: true,
+				},
+			},
+		)
+		expect(events.map((event) => event.startAt.toISOString())).toEqual([
+			"2020-10-16T07:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+			"2020-10-16T15:00:00.000Z",
+			"2020-10-23T15:00:00.000Z",
+		])
+	})
+	it("should handle whole days, durations, floating times and UTC offsets", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalDatesData,
+		)
+		expect(events.map((event) => [event.startAt.toISOString(), event.endAt.toISOString()]))
+			.toEqual([
+				/* Whole days are expressed in the provided time zone */
+				["2020-10-29T23:00:00.000Z", "2020-10-30T23:00:00.000Z"],
+				["2020-11-01T23:00:00.000Z", "2020-11-02T23:00:00.000Z"],
+				["2020-11-04T23:00:00.000Z", "2020-11-06T23:00:00.000Z"],
+				["2020-10-28T13:00:00.000Z", "2020-10-28T14:30:00.000Z"],
+				/* Floating times are expressed in the provided time zone without X-WR-TIMEZONE */
+				["2020-10-29T09:00:00.000Z", "2020-10-30T09:00:00.000Z"],
+				/* A day lasts 25 hours when switching back to winter time */
+				["2020-10-24T10:00:00.000Z", "2020-10-25T11:00:00.000Z"],
+				["2020-10-27T08:00:00.000Z", "2020-10-27T08:00:00.000Z"],
+				["2020-10-26T19:30:00.000Z", "2020-10-26T20:30:00.000Z"],
+			])
+	})
+	it("should express whole days in the provided time zone", () => {
+		const [event] = extractEventsFromCalendar(
+			"America/New_York",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalDatesData,
+		)
+		expect(event.startAt.toISOString()).toBe("2020-10-30T04:00:00.000Z")
+		expect(event.endAt.toISOString()).toBe("2020-10-31T04:00:00.000Z")
+	})
+	it("should report skipped events and the reason why", () => {
+		const onSkippedEvent = jest.fn()
+		extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalDatesData,
+			{ onSkippedEvent },
+		)
+		expect(onSkippedEvent.mock.calls.map(([skippedEvent]) => skippedEvent)).toEqual([
+			{
+				index: 8,
+				eventId: "invalid-date@test",
+				reason: "Invalid iCal date: 20201332T100000",
+			},
+			{ index: 9, eventId: "no-start@test", reason: "Missing start date (DTSTART)" },
+			{
+				index: 10,
+				eventId: "end-before-start@test",
+				reason: "End date is before start date",
+			},
+			{ index: 11, eventId: "invalid-duration@test", reason: "Invalid iCal duration: P" },
+		])
+	})
+	it("should resolve time zones defined by the calendar and Windows time zones", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalTimeZonesData,
+			{ onSkippedEvent },
+		)
+		expect(events.map((event) => [event.startAt.toISOString(), event.endAt.toISOString()]))
+			.toEqual([
+				["2020-10-28T13:00:00.000Z", "2020-10-28T14:00:00.000Z"],
+				["2020-11-02T14:00:00.000Z", "2020-11-02T15:00:00.000Z"],
+				/* Daylight saving time ends on November 1st */
+				["2020-10-27T13:00:00.000Z", "2020-10-27T13:30:00.000Z"],
+				["2020-11-03T14:00:00.000Z", "2020-11-03T14:30:00.000Z"],
+				["2020-10-29T06:30:00.000Z", "2020-10-29T07:30:00.000Z"],
+				["2020-10-30T09:00:00.000Z", "2020-10-30T10:00:00.000Z"],
+				/* Daylight saving time ends on October 25th */
+				["2020-10-20T08:00:00.000Z", "2020-10-20T09:00:00.000Z"],
+				["2020-10-27T09:00:00.000Z", "2020-10-27T10:00:00.000Z"],
+				["2020-10-29T14:00:00.000Z", "2020-10-29T15:00:00.000Z"],
+			])
+		expect(onSkippedEvent).toHaveBeenCalledTimes(1)
+		expect(onSkippedEvent).toHaveBeenCalledWith({
+			index: 7,
+			eventId: "unknown@test",
+			reason: "Unknown time zone: Mars/Olympus_Mons",
+		})
+	})
+	it("should extract the busy times of free/busy components", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalFreeBusyData,
+			{ onSkippedEvent },
+		)
+		expect(events.map((event) => [event.startAt.toISOString(), event.endAt.toISOString()]))
+			.toEqual([
+				["2020-10-16T07:00:00.000Z", "2020-10-16T08:00:00.000Z"],
+				["2020-10-16T10:00:00.000Z", "2020-10-16T11:00:00.000Z"],
+				["2020-10-16T12:00:00.000Z", "2020-10-16T12:30:00.000Z"],
+				["2020-10-16T13:00:00.000Z", "2020-10-16T13:30:00.000Z"],
+				["2020-10-16T14:00:00.000Z", "2020-10-16T15:00:00.000Z"],
+				/* Free time is ignored, unknown types are considered busy */
+				["2020-10-16T16:00:00.000Z", "2020-10-16T17:00:00.000Z"],
+				["2020-10-16T17:00:00.000Z", "2020-10-16T17:15:00.000Z"],
+			])
+		expect(events[1].startAt.format("HH:mm Z")).toBe("12:00 +02:00")
+		expect(onSkippedEvent.mock.calls).toEqual([
+			[{
+				index: 1,
+				eventId: "free-busy@test",
+				reason: "Invalid iCal period: 20201016T180000Z",
+			}],
+			[{ index: 1, eventId: "free-busy@test", reason: "End date is before start date" }],
+		])
+	})
+	it("should apply the blocking policy to free/busy times", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalFreeBusyData,
+			{
+				eventBlockingPolicy: { tentativeBlocksTime: false },
+				searchWindow: {
+					startAt: dayjs("2020-10-16T12:15:00.000Z"),
+					endAt: dayjs("2020-10-16T16:00:00.000Z"),
+				},
+			},
+		)
+		expect(events.map((event) => [event.startAt.toISOString(), event.endAt.toISOString()]))
+			.toEqual([
+				["2020-10-16T12:00:00.000Z", "2020-10-16T12:30:00.000Z"],
+				["2020-10-16T13:00:00.000Z", "2020-10-16T13:30:00.000Z"],
+			])
+	})
 })
@@ -0,0 +1,114 @@
+import dayjs from "dayjs"
+
+import { extractEventsFromCalendar } from "../../src/events-extractors/extractor"
+import { JCalComponent } from "../../src/types"
+
+import iCalTestRecurringJSON from "../resources/calendar-ical-recurring.json"
+import iCalTestStatusesJSON from "../resources/calendar-ical-statuses.json"
+import iCalTestTimeZonesJSON from "../resources/calendar-ical-time-zones.json"
+import jCalTestRecurringJSON from "../resources/calendar-jcal-recurring.json"
+import jCalTestStatusesJSON from "../resources/calendar-jcal-statuses.json"
+import jCalTestTimeZonesJSON from "../resources/calendar-jcal-time-zones.json"
+import { TimeSlotsFinderCalendarFormat } from "../../src"
+import { TimeSlotsFinderError } from "../../src/errors"
+import MockDate from "mockdate"
+
+const iCalRecurringData = (iCalTestRecurringJSON as unknown as { data: string }).data
+const iCalStatusesData = (iCalTestStatusesJSON as unknown as { data: string }).data
+const iCalTimeZonesData = (iCalTestTimeZonesJSON as unknown as { data: string }).data
+const jCalRecurringData = (jCalTestRecurringJSON as unknown as { data: JCalComponent }).data
+const jCalStatusesData = (jCalTestStatusesJSON as unknown as { data: JCalComponent }).data
+const jCalTimeZonesData = (jCalTestTimeZonesJSON as unknown as { data: JCalComponent }).data
+
+describe("jCal calendar extractor", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should extract the same events as the equivalent iCal calendar", () => {
+		const options = {
+			searchWindow: {
+				startAt: dayjs("2020-10-01T00:00:00.000+02:00"),
+				endAt: dayjs("2020-11-30T23:59:59.999+01:00"),
+			},
+		}
+		const iCalEvents = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalRecurringData,
+			options,
+		)
+		const jCalEvents = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			jCalRecurringData,
+			options,
+		)
+		expect(jCalEvents.length).toBe(10)
+		expect(jCalEvents).toEqual(iCalEvents)
+	})
+	it("should accept jCal data as a JSON string", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			JSON.stringify(jCalRecurringData),
+		)
+		expect(events).toEqual(extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			jCalRecurringData,
+		))
+	})
+	it("should share the events statuses semantics with iCal", () => {
+		const options = {
+			eventBlockingPolicy: {
+				ownerEmails: ["owner@example.com"],
+				tentativeBlocksTime: false,
+			},
+		}
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			jCalStatusesData,
+			options,
+		)
+		expect(events).toEqual(extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalStatusesData,
+			options,
+		))
+	})
+	it("should share the time zones semantics with iCal", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			jCalTimeZonesData,
+			{ onSkippedEvent },
+		)
+		expect(events.length).toBe(9)
+		expect(events).toEqual(extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			iCalTimeZonesData,
+		))
+		expect(onSkippedEvent).toHaveBeenCalledWith({
+			index: 7,
+			eventId: "unknown@test",
+			reason: "Unknown time zone: Mars/Olympus_Mons",
+		})
+	})
+	it("should throw for invalid jCal data", () => {
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			"BEGIN:VCALENDAR",
+		)).toThrowError(new TimeSlotsFinderError("Invalid jCal calendar data: malformed JSON"))
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.jCal,
+			["vevent", [], []],
+		)).toThrowError(new TimeSlotsFinderError(
+			"Invalid jCal calendar data: vcalendar component expected",
+		))
+	})
+})
@@ -0,0 +1,88 @@
+import { extractEventsFromCalendar } from "../../src/events-extractors/extractor"
+import { DayjsPeriod, GraphScheduleResponse } from "../../src/types"
+
+import graphScheduleJSON from "../resources/calendar-microsoft-graph-schedule.json"
+import { TimeSlotsFinderCalendarFormat } from "../../src"
+import { TimeSlotsFinderError } from "../../src/errors"
+
+const scheduleData = (graphScheduleJSON as unknown as { data: GraphScheduleResponse }).data
+
+const toISOStrings = (periods: DayjsPeriod[]) => periods.map(({ startAt, endAt }) => (
+	[startAt.toISOString(), endAt.toISOString()]
+))
+
+describe("Microsoft Graph schedule extractor", () => {
+	it("should map the statuses of schedule items and read availability views", () => {
+		const onSkippedEvent = jest.fn()
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+			scheduleData,
+			{ onSkippedEvent },
+		)
+		expect(toISOStrings(events)).toEqual([
+			["2020-10-15T06:00:00.000Z", "2020-10-15T07:00:00.000Z"],
+			["2020-10-15T08:00:00.000Z", "2020-10-15T08:30:00.000Z"],
+			["2020-10-15T12:00:00.000Z", "2020-10-15T13:00:00.000Z"],
+			["2020-10-17T00:00:00.000Z", "2020-10-17T01:00:00.000Z"],
+			["2020-10-15T07:00:00.000Z", "2020-10-15T09:00:00.000Z"],
+			["2020-10-15T09:00:00.000Z", "2020-10-15T10:00:00.000Z"],
+			["2020-10-15T12:00:00.000Z", "2020-10-15T13:00:00.000Z"],
+		])
+		expect(events[0].startAt.format("HH:mm Z")).toBe("08:00 +02:00")
+		expect(onSkippedEvent.mock.calls).toEqual([
+			[{ index: 6, reason: "Invalid Microsoft Graph date: 2020-02-30T10:00:00.0000000" }],
+			[{ index: 7, reason: "Unknown time zone: Mars Standard Time" }],
+		])
+	})
+	it("should apply the blocking policy to tentative and working elsewhere statuses", () => {
+		const events = extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+			JSON.stringify(scheduleData),
+			{
+				eventBlockingPolicy: {
+					tentativeBlocksTime: false,
+					workingElsewhereBlocksTime: true,
+				},
+			},
+		)
+		expect(toISOStrings(events)).toEqual([
+			["2020-10-15T06:00:00.000Z", "2020-10-15T07:00:00.000Z"],
+			["2020-10-15T12:00:00.000Z", "2020-10-15T13:00:00.000Z"],
+			["2020-10-16T06:00:00.500Z", "2020-10-16T16:00:00.000Z"],
+			["2020-10-17T00:00:00.000Z", "2020-10-17T01:00:00.000Z"],
+			["2020-10-15T07:00:00.000Z", "2020-10-15T09:00:00.000Z"],
+			["2020-10-15T11:00:00.000Z", "2020-10-15T12:00:00.000Z"],
+			["2020-10-15T12:00:00.000Z", "2020-10-15T13:00:00.000Z"],
+		])
+	})
+	it("should throw for invalid responses and schedules in error", () => {
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+			{} as GraphScheduleResponse,
+		)).toThrowError(new TimeSlotsFinderError(
+			"Invalid Microsoft Graph schedule calendar data: value expected",
+		))
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+			{
+				value: [{
+					scheduleId: "room@example.com",
+					error: { message: "Mailbox not found" },
+				}],
+			},
+		)).toThrowError(new TimeSlotsFinderError(
+			"Microsoft Graph schedule error for room@example.com: Mailbox not found",
+		))
+		expect(() => extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+			{ value: [{ scheduleId: "room@example.com", availabilityView: "0220" }] },
+		)).toThrowError(new TimeSlotsFinderError(
+			"Missing start time to read the availability view of room@example.com",
+		))
+	})
+})
@@ -0,0 +1,118 @@
+import MockDate from "mockdate"
+import { exportTimeSlotsToICal, getAvailableTimeSlotsInCalendar, ICalExportComponent } from "../src"
+import { extractEventsFromCalendar } from "../src/events-extractors/extractor"
+import { DayjsPeriod, TimeSlotsFinderCalendarFormat } from "../src/types"
+import { TimeSlotsFinderError } from "../src/errors"
+
+const timeSlots = [
+	{ startAt: new Date("2020-10-16T08:00:00.000Z"), endAt: new Date("2020-10-16T09:00:00.000Z") },
+	{ startAt: new Date("2020-10-16T09:00:00.000Z"), endAt: new Date("2020-10-16T10:00:00.000Z") },
+	{ startAt: new Date("2020-10-16T13:00:00.000Z"), endAt: new Date("2020-10-16T14:00:00.000Z") },
+]
+
+describe("iCal export", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should export time slots as free time of a VFREEBUSY component", () => {
+		expect(exportTimeSlotsToICal(timeSlots).split("\r\n")).toEqual([
+			"BEGIN:VCALENDAR",
+			"VERSION:2.0",
+			"PRODID:-//time-slots-finder//EN",
+			"BEGIN:VFREEBUSY",
+			"UID:20201015T150312Z-free-busy@time-slots-finder",
+			"DTSTAMP:20201015T150312Z",
+			"DTSTART:20201016T080000Z",
+			"DTEND:20201016T140000Z",
+			"FREEBUSY;FBTYPE=FREE:20201016T080000Z/20201016T090000Z",
+			"FREEBUSY;FBTYPE=FREE:20201016T090000Z/20201016T100000Z",
+			"FREEBUSY;FBTYPE=FREE:20201016T130000Z/20201016T140000Z",
+			"END:VFREEBUSY",
+			"END:VCALENDAR",
+			"",
+		])
+	})
+	it("should export free windows as transparent events", () => {
+		const iCal = exportTimeSlotsToICal(timeSlots, {
+			component: ICalExportComponent.event,
+			mergeSlots: true,
+			summary: "Available, call me; maybe",
+			productId: "-//Example//Bookings//EN",
+		})
+		expect(iCal.split("\r\n")).toEqual([
+			"BEGIN:VCALENDAR",
+			"VERSION:2.0",
+			"PRODID:-//Example//Bookings//EN",
+			"BEGIN:VEVENT",
+			"UID:20201016T080000Z-20201016T100000Z@time-slots-finder",
+			"DTSTAMP:20201015T150312Z",
+			"DTSTART:20201016T080000Z",
+			"DTEND:20201016T100000Z",
+			"SUMMARY:Available\\, call me\\; maybe",
+			"TRANSP:TRANSPARENT",
+			"END:VEVENT",
+			"BEGIN:VEVENT",
+			"UID:20201016T130000Z-20201016T140000Z@time-slots-finder",
+			"DTSTAMP:20201015T150312Z",
+			"DTSTART:20201016T130000Z",
+			"DTEND:20201016T140000Z",
+			"SUMMARY:Available\\, call me\\; maybe",
+			"TRANSP:TRANSPARENT",
+			"END:VEVENT",
+			"END:VCALENDAR",
+			"",
+		])
+	})
+	it("should stamp the calendar with the moment given by `now`", () => {
+		const iCal = exportTimeSlotsToICal(timeSlots, { now: new Date("2020-10-16T07:00:00.000Z") })
+		expect(iCal).toContain("UID:20201016T070000Z-free-busy@time-slots-finder\r\n")
+		expect(iCal).toContain("DTSTAMP:20201016T070000Z\r\n")
+	})
+	it("should fold long lines", () => {
+		const iCal = exportTimeSlotsToICal(timeSlots.slice(0, 1), {
+			component: ICalExportComponent.event,
+			summary: "A".repeat(100),
+		})
+		const lines = iCal.split("\r\n")
+		expect(lines.every((line) => line.length <= 75)).toBe(true)
+		expect(lines).toContain(` ${"A".repeat(33)}`)
+	})
+	it("should give the exported slots back when extracted", () => {
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: {
+				timeSlotDuration: 45,
+				availablePeriods: [{
+					isoWeekDay: 5,
+					shifts: [{ startTime: "10:00", endTime: "12:00" }],
+				}],
+				timeZone: "Europe/Paris",
+			},
+			from: new Date("2020-10-16T00:00:00.000+02:00"),
+			to: new Date("2020-10-17T00:00:00.000+02:00"),
+		})
+		const options = { eventBlockingPolicy: { transparentBlocksTime: true } }
+		const toDates = (periods: DayjsPeriod[]) => periods.map(({ startAt, endAt }) => ({
+			startAt: startAt.toDate(),
+			endAt: endAt.toDate(),
+		}))
+		const expected = slots.map(({ startAt, endAt }) => ({ startAt, endAt }))
+		expect(expected.length).toBe(2)
+		expect(toDates(extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			exportTimeSlotsToICal(slots),
+			options,
+		))).toEqual(expected)
+		expect(toDates(extractEventsFromCalendar(
+			"Europe/Paris",
+			TimeSlotsFinderCalendarFormat.iCal,
+			exportTimeSlotsToICal(slots, { component: ICalExportComponent.event }),
+			options,
+		))).toEqual(expected)
+	})
+	it("should throw for invalid time slots", () => {
+		expect(() => exportTimeSlotsToICal([
+			timeSlots[0],
+			{ startAt: new Date("2020-10-16T09:00:00.000Z"), endAt: new Date("invalid") },
+		])).toThrowError(new TimeSlotsFinderError("Time slot nº2 is invalid"))
+	})
+})
@@ -0,0 +1,258 @@
+import MockDate from "mockdate"
+import {
+	getAvailableTimeSlotsForParticipants,
+	getAvailableTimeSlotsInCalendar,
+	QuotaPeriod,
+	SlotGenerationMode,
+	TimeSlotsFinderCalendarFormat,
+} from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+import iCalTestJSON from "./resources/calendar-ical.json"
+
+const iCalData = (iCalTestJSON as unknown as { data: string }).data
+
+const fridayConfig = (timeZone: string, startTime: string, endTime: string) => ({
+	timeSlotDuration: 60,
+	availablePeriods: [{ isoWeekDay: 5, shifts: [{ startTime, endTime }] }],
+	timeZone,
+})
+
+const from = new Date("2020-10-16T00:00:00.000+02:00")
+const to = new Date("2020-10-17T00:00:00.000+02:00")
+
+describe("Time Slot Finder for several participants", () => {
+	beforeEach(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should find the same slots as a search for a single participant", () => {
+		const configuration = {
+			...fridayConfig("Europe/Paris", "10:00", "20:00"),
+			timeSlotDuration: 30,
+			minAvailableTimeBeforeSlot: 10,
+			minAvailableTimeAfterSlot: 15,
+			slotStartMinuteStep: 15,
+		}
+		const expectedSlots = getAvailableTimeSlotsInCalendar({
+			configuration,
+			calendarData: iCalData,
+			calendarFormat: TimeSlotsFinderCalendarFormat.iCal,
+			from,
+			to,
+		})
+		const slots = getAvailableTimeSlotsForParticipants({
+			participants: [{
+				id: "alice",
+				configuration,
+				calendarData: iCalData,
+				calendarFormat: TimeSlotsFinderCalendarFormat.iCal,
+			}],
+			timeSlotDuration: 30,
+			slotStartMinuteStep: 15,
+			from,
+			to,
+		})
+		expect(expectedSlots.length).toBeGreaterThan(5)
+		expect(slots).toEqual(expectedSlots.map(({ startAt, endAt, duration }) => ({
+			startAt,
+			endAt,
+			duration,
+			availableParticipants: ["alice"],
+			unavailableParticipants: [],
+		})))
+	})
+	it("should place the slots back to back in the free time common to the participants", () => {
+		const slots = getAvailableTimeSlotsForParticipants({
+			participants: [{
+				id: "alice",
+				configuration: fridayConfig("UTC", "09:00", "17:00"),
+			}, {
+				id: "bob",
+				configuration: fridayConfig("UTC", "09:00", "17:00"),
+				/* Alone, Bob's slots would start at 09:20, 10:20... and Alice's at 09:00, 10:00 */
+				calendarData: { calendars: { bob: { busy: [
+					{ start: "2020-10-16T09:00:00Z", end: "2020-10-16T09:20:00Z" },
+				] } } },
+				calendarFormat: TimeSlotsFinderCalendarFormat.googleFreeBusy,
+			}],
+			timeSlotDuration: 60,
+			from,
+			to,
+		})
+		expect(slots.map(({ startAt }) => startAt.toISOString())).toEqual([
+			"2020-10-16T09:20:00.000Z",
+			"2020-10-16T10:20:00.000Z",
+			"2020-10-16T11:20:00.000Z",
+			"2020-10-16T12:20:00.000Z",
+			"2020-10-16T13:20:00.000Z",
+			"2020-10-16T14:20:00.000Z",
+			"2020-10-16T15:20:00.000Z",
+		])
+	})
+	it("should apply the settings of shifts, capacities and the slot generation mode", () => {
+		const configuration = {
+			timeSlotDuration: 60,
+			slotStartMinuteStep: 30,
+			slotGenerationMode: SlotGenerationMode.rolling,
+			/* Calendar events take a seat instead of blocking the time */
+			capacity: 1,
+			availablePeriods: [{
+				isoWeekDay: 5,
+				shifts: [
+					{ startTime: "10:00", endTime: "14:00", minAvailableTimeAfterSlot: 30 },
+					{ startTime: "15:00", endTime: "20:00", capacity: 2 },
+				],
+			}],
+			timeZone: "Europe/Paris",
+		}
+		const expectedSlots = getAvailableTimeSlotsInCalendar({
+			configuration,
+			calendarData: iCalData,
+			from,
+			to,
+		})
+		const slots = getAvailableTimeSlotsForParticipants({
+			participants: [{ id: "alice", configuration, calendarData: iCalData }, {
+				id: "bob",
+				configuration: fridayConfig("Europe/Paris", "08:00", "20:00"),
+			}],
+			timeSlotDuration: 60,
+			slotGenerationMode: SlotGenerationMode.rolling,
+			from,
+			to,
+		})
+		expect(expectedSlots.length).toBeGreaterThan(5)
+		expect(slots.map(({ startAt, endAt }) => ({ startAt, endAt })))
+			.toEqual(expectedSlots.map(({ startAt, endAt }) => ({ startAt, endAt })))
+	})
+	it("should apply the quotas of each participant", () => {
+		const participants = [{
+			id: "alice",
+			configuration: fridayConfig("Europe/Paris", "10:00", "20:00"),
+			calendarData: iCalData,
+		}, {
+			id: "bob",
+			configuration: fridayConfig("Europe/Paris", "10:00", "20:00"),
+		}]
+		const getSlots = (required: boolean) => getAvailableTimeSlotsForParticipants({
+			participants: [{
+				...participants[0],
+				required,
+				/* The events of Alice's calendar reach her daily quota */
+				configuration: {
+					...participants[0].configuration,
+					quotas: [{ period: QuotaPeriod.day, maxEvents: 1 }],
+				},
+			}, participants[1]],
+			timeSlotDuration: 60,
+			from,
+			to,
+		})
+		const slotsWithoutQuota = getAvailableTimeSlotsForParticipants({
+			participants,
+			timeSlotDuration: 60,
+			from,
+			to,
+		})
+		expect(slotsWithoutQuota).not.toEqual([])
+		expect(getSlots(true)).toEqual([])
+		expect(getSlots(false).map(({ unavailableParticipants }) => unavailableParticipants))
+			.toEqual(Array(10).fill(["alice"]))
+	})
+	it("should intersect the availabilities of the required participants", () => {
+		const slots = getAvailableTimeSlotsForParticipants({
+			participants: [{
+				id: "alice",
+				configuration: fridayConfig("Europe/Paris", "10:00", "18:00"),
+			}, {
+				id: "bob",
+				configuration: {
+					...fridayConfig("America/New_York", "08:00", "12:00"),
+					unavailablePeriods: [{
+						startAt: { year: 2020, month: 9, day: 16, hour: 9, minute: 0 },
+						endAt: { year: 2020, month: 9, day: 16, hour: 10, minute: 0 },
+					}],
+				},
+			}, {
+				id: "carol",
+				required: false,
+				configuration: fridayConfig("Europe/Paris", "15:00", "18:00"),
+			}],
+			timeSlotDuration: 60,
+			from,
+			to,
+		})
+		/* Slots are ranked by the number of optional participants available */
+		expect(slots.map((slot) => ({
+			startAt: slot.startAt.toISOString(),
+			availableParticipants: slot.availableParticipants,
+			unavailableParticipants: slot.unavailableParticipants,
+		}))).toEqual([{
+			startAt: "2020-10-16T14:00:00.000Z",
+			availableParticipants: ["alice", "bob", "carol"],
+			unavailableParticipants: [],
+		}, {
+			startAt: "2020-10-16T15:00:00.000Z",
+			availableParticipants: ["alice", "bob", "carol"],
+			unavailableParticipants: [],
+		}, {
+			startAt: "2020-10-16T12:00:00.000Z",
+			availableParticipants: ["alice", "bob"],
+			unavailableParticipants: ["carol"],
+		}])
+	})
+	it("should report skipped events with the participant they belong to", () => {
+		const onSkippedEvent = jest.fn()
+		getAvailableTimeSlotsForParticipants({
+			participants: [{
+				id: "alice",
+				configuration: fridayConfig("Europe/Paris", "10:00", "18:00"),
+				calendarData: iCalData,
+			}],
+			timeSlotDuration: 60,
+			onSkippedEvent,
+			from,
+			to,
+		})
+		expect(onSkippedEvent).toHaveBeenCalledWith(expect.objectContaining({
+			participantId: "alice",
+		}))
+	})
+	it("should throw for invalid parameters", () => {
+		const params = {
+			participants: [{
+				id: "alice",
+				configuration: fridayConfig("Europe/Paris", "10:00", "18:00"),
+			}],
+			timeSlotDuration: 60,
+			from,
+			to,
+		}
+		expect(() => getAvailableTimeSlotsForParticipants({ ...params, participants: [] }))
+			.toThrowError(new TimeSlotsFinderError("A list of participants is expected"))
+		expect(() => getAvailableTimeSlotsForParticipants({
+			...params,
+			participants: [params.participants[0], params.participants[0]],
+		})).toThrowError(new TimeSlotsFinderError("Duplicate participant identifier: alice"))
+		expect(() => getAvailableTimeSlotsForParticipants({
+			...params,
+			participants: [{ ...params.participants[0], required: false }],
+		})).toThrowError(new TimeSlotsFinderError("At least one participant must be required"))
+		expect(() => getAvailableTimeSlotsForParticipants({
+			...params,
+			slotGenerationMode: SlotGenerationMode.anchored,
+		})).toThrowError(new TimeSlotsFinderError("Invalid slot generation mode: anchored"))
+		expect(() => getAvailableTimeSlotsForParticipants({ ...params, timeSlotDuration: 0 }))
+			.toThrowError(new TimeSlotsFinderError("Slot duration must be at least 1 minute"))
+		expect(() => getAvailableTimeSlotsForParticipants({
+			...params,
+			participants: [{
+				id: "bob",
+				configuration: {
+					...fridayConfig("Europe/Paris", "10:00", "18:00"),
+					timeSlotDuration: 0,
+				},
+			}],
+		})).toThrowError(new TimeSlotsFinderError(
+			"Participant bob: Slot duration must be at least 1 minute",
+		))
+	})
+})
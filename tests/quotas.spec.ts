@@ -0,0 +1,113 @@
+import MockDate from "mockdate"
+import { getAvailableTimeSlotsInCalendar, isConfigurationValid, QuotaPeriod } from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestQuotasJSON from "./resources/calendar-ical-quotas.json"
+
+const iCalQuotasData = (iCalTestQuotasJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	availablePeriods: [1, 2, 3].map((isoWeekDay) => ({
+		isoWeekDay,
+		shifts: [{ startTime: "09:00", endTime: "13:00" }],
+	})),
+	timeZone: "Europe/Paris",
+}
+
+const searchSlots = (
+	configuration: Record<string, unknown>,
+	from = "2020-10-19T00:00:00.000+02:00",
+) => {
+	const rejectedSlots: string[][] = []
+	const slots = getAvailableTimeSlotsInCalendar({
+		calendarData: iCalQuotasData,
+		configuration: { ...baseConfiguration, ...configuration },
+		onRejectedSlot: (rejectedSlot) => rejectedSlots.push([
+			rejectedSlot.startAt.toISOString(),
+			rejectedSlot.reason,
+		]),
+		from: new Date(from),
+		to: new Date("2020-10-22T00:00:00.000+02:00"),
+	})
+	return {
+		slots: slots.map((slot) => slot.startAt.toISOString()),
+		rejectedSlots,
+	}
+}
+
+describe("Time Slot Finder with booking quotas", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should reject the slots of days whose quotas would be exceeded", () => {
+		expect(searchSlots({
+			quotas: [
+				{ period: QuotaPeriod.day, maxEvents: 2 },
+				{ period: QuotaPeriod.day, maxBookedMinutes: 200 },
+			],
+		})).toEqual({
+			slots: [
+				"2020-10-21T07:00:00.000Z",
+				"2020-10-21T08:00:00.000Z",
+				"2020-10-21T09:00:00.000Z",
+				"2020-10-21T10:00:00.000Z",
+			],
+			rejectedSlots: [
+				["2020-10-19T09:00:00.000Z", `Daily quota of 2 events would be exceeded (2 booked)`],
+				["2020-10-19T10:00:00.000Z", `Daily quota of 2 events would be exceeded (2 booked)`],
+				["2020-10-20T10:00:00.000Z", `Daily quota of 200 booked minutes would be exceeded (180 booked)`],
+			],
+		})
+	})
+	it("should count the events of the whole period, even outside of the search", () => {
+		const { slots, rejectedSlots } = searchSlots({
+			quotas: [{ period: QuotaPeriod.week, maxEvents: 3 }],
+		}, "2020-10-21T00:00:00.000+02:00")
+		expect(slots).toEqual([])
+		expect(rejectedSlots[0]).toEqual([
+			"2020-10-21T07:00:00.000Z",
+			"Weekly quota of 3 events would be exceeded (3 booked)",
+		])
+		expect(searchSlots({
+			quotas: [{ period: QuotaPeriod.month, maxBookedMinutes: 600 }],
+		}, "2020-10-21T00:00:00.000+02:00").slots.length).toBe(4)
+	})
+	it("should count the events of each occurrence of shifts having a quota", () => {
+		const { slots, rejectedSlots } = searchSlots({
+			availablePeriods: [{
+				isoWeekDay: 1,
+				shifts: [
+					{ startTime: "09:00", endTime: "12:00", quota: { maxEvents: 2 } },
+					{ startTime: "12:00", endTime: "14:00" },
+				],
+			}],
+		})
+		expect(slots).toEqual(["2020-10-19T10:00:00.000Z", "2020-10-19T11:00:00.000Z"])
+		expect(rejectedSlots).toEqual([
+			["2020-10-19T09:00:00.000Z", "Shift quota of 2 events would be exceeded (2 booked)"],
+		])
+	})
+	it("should throw for invalid quotas", () => {
+		expect(() => isConfigurationValid({ ...baseConfiguration, quotas: {} as never }))
+			.toThrowError(new TimeSlotsFinderError("A list of quotas is expected"))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			quotas: [{ period: "year" as never, maxEvents: 2 }],
+		})).toThrowError(new TimeSlotsFinderError("Invalid period for quota nº1: year"))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			quotas: [{ period: QuotaPeriod.day }],
+		})).toThrowError(new TimeSlotsFinderError(`A number of events or of booked minutes must be limited for quota nº1`))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			quotas: [{ period: QuotaPeriod.week, maxEvents: 2.5 }],
+		})).toThrowError(new TimeSlotsFinderError(`The maximum number of events must be an integer of at least 1 for quota nº1`))
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			availablePeriods: [{
+				isoWeekDay: 1,
+				shifts: [{ startTime: "09:00", endTime: "12:00", quota: { maxBookedMinutes: 0 } }],
+			}],
+		})).toThrowError(new TimeSlotsFinderError(`The maximum number of booked minutes must be an integer of at least 1 for the quota of daily shift 09:00 - 12:00 for available period nº1`))
+	})
+})
@@ -0,0 +1,138 @@
+import "../src/dayjs-setup"
+import dayjs from "dayjs"
+import { expandRecurrenceRule } from "../src/recurrence"
+
+const format = "YYYY-MM-DD HH:mm"
+
+describe("#expandRecurrenceRule", () => {
+	it("should expand daily rules with interval and count", () => {
+		const occurrences = expandRecurrenceRule(
+			{ frequency: "DAILY", interval: 3, count: 4 },
+			dayjs.utc("2020-10-30T09:00:00"),
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual([
+			"2020-10-30 09:00",
+			"2020-11-02 09:00",
+			"2020-11-05 09:00",
+			"2020-11-08 09:00",
+		])
+	})
+	it("should expand weekly rules on several weekdays until a given moment", () => {
+		const occurrences = expandRecurrenceRule(
+			{
+				frequency: "WEEKLY",
+				interval: 2,
+				byWeekDay: [{ isoWeekDay: 1 }, { isoWeekDay: 5 }],
+				until: dayjs.utc("2020-11-06T10:00:00"),
+			},
+			dayjs.utc("2020-10-14T10:00:00"),
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual([
+			"2020-10-14 10:00",
+			"2020-10-16 10:00",
+			"2020-10-26 10:00",
+			"2020-10-30 10:00",
+		])
+	})
+	it("should expand monthly rules on ordinal weekdays and month days", () => {
+		const firstMondays = expandRecurrenceRule(
+			{ frequency: "MONTHLY", byWeekDay: [{ isoWeekDay: 1, ordinal: 1 }], count: 3 },
+			dayjs.utc("2020-10-05T08:30:00"),
+		)
+		expect(firstMondays.map((o) => o.format(format))).toEqual([
+			"2020-10-05 08:30",
+			"2020-11-02 08:30",
+			"2020-12-07 08:30",
+		])
+		const lastDays = expandRecurrenceRule(
+			{ frequency: "MONTHLY", byMonthDay: [-1], count: 3 },
+			dayjs.utc("2021-01-31T08:30:00"),
+		)
+		expect(lastDays.map((o) => o.format(format))).toEqual([
+			"2021-01-31 08:30",
+			"2021-02-28 08:30",
+			"2021-03-31 08:30",
+		])
+		/* Months without a 31st day are skipped */
+		const thirtyFirsts = expandRecurrenceRule(
+			{ frequency: "MONTHLY", count: 3 },
+			dayjs.utc("2021-01-31T08:30:00"),
+		)
+		expect(thirtyFirsts.map((o) => o.format(format))).toEqual([
+			"2021-01-31 08:30",
+			"2021-03-31 08:30",
+			"2021-05-31 08:30",
+		])
+	})
+	it("should use set positions to select occurrences within each period", () => {
+		/* Last working day of each quarter */
+		const occurrences = expandRecurrenceRule(
+			{
+				frequency: "MONTHLY",
+				interval: 3,
+				byWeekDay: [1, 2, 3, 4, 5].map((isoWeekDay) => ({ isoWeekDay })),
+				bySetPosition: [-1],
+				count: 4,
+			},
+			dayjs.utc("2020-03-31T17:00:00"),
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual([
+			"2020-03-31 17:00",
+			"2020-06-30 17:00",
+			"2020-09-30 17:00",
+			"2020-12-31 17:00",
+		])
+	})
+	it("should expand yearly rules", () => {
+		/* Daylight saving time rule of Europe */
+		const occurrences = expandRecurrenceRule(
+			{ frequency: "YEARLY", byMonth: [2], byWeekDay: [{ isoWeekDay: 7, ordinal: -1 }] },
+			dayjs.utc("1981-03-29T02:00:00"),
+			{ startAt: dayjs.utc("2020-01-01T00:00:00"), endAt: dayjs.utc("2022-12-31T00:00:00") },
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual([
+			"2020-03-29 02:00",
+			"2021-03-28 02:00",
+			"2022-03-27 02:00",
+		])
+		const firstMondays = expandRecurrenceRule(
+			{ frequency: "YEARLY", byWeekDay: [{ isoWeekDay: 1, ordinal: 1 }], count: 2 },
+			dayjs.utc("2020-01-06T09:00:00"),
+		)
+		expect(firstMondays.map((o) => o.format(format))).toEqual([
+			"2020-01-06 09:00",
+			"2021-01-04 09:00",
+		])
+	})
+	it("should only return occurrences within the window", () => {
+		const occurrences = expandRecurrenceRule(
+			{ frequency: "WEEKLY" },
+			dayjs.utc("2010-01-05T10:00:00"),
+			{ startAt: dayjs.utc("2020-10-01T00:00:00"), endAt: dayjs.utc("2020-10-31T00:00:00") },
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual([
+			"2020-10-06 10:00",
+			"2020-10-13 10:00",
+			"2020-10-20 10:00",
+			"2020-10-27 10:00",
+		])
+		/* Counted occurrences before the window are taken into account */
+		const countedOccurrences = expandRecurrenceRule(
+			{ frequency: "DAILY", count: 10 },
+			dayjs.utc("2020-10-01T10:00:00"),
+			{ startAt: dayjs.utc("2020-10-08T00:00:00"), endAt: dayjs.utc("2020-10-31T00:00:00") },
+		)
+		expect(countedOccurrences.map((o) => o.format(format))).toEqual([
+			"2020-10-08 10:00",
+			"2020-10-09 10:00",
+			"2020-10-10 10:00",
+		])
+	})
+	it("should not loop forever on rules without occurrences", () => {
+		const occurrences = expandRecurrenceRule(
+			{ frequency: "YEARLY", byMonth: [1], byMonthDay: [30] },
+			dayjs.utc("2020-01-30T10:00:00"),
+		)
+		expect(occurrences.map((o) => o.format(format))).toEqual(["2020-01-30 10:00"])
+	})
+})
@@ -0,0 +1,149 @@
+import MockDate from "mockdate"
+import {
+	getAvailableTimeSlotsInCalendar,
+	getAvailableTimeSlotsInResourcePool,
+	QuotaPeriod,
+	ResourceAssignmentStrategy,
+	TimeSlot,
+	TimeSlotsFinderCalendarFormat,
+	TimeSlotsFinderConfiguration,
+	TimeSlotsFinderResource,
+} from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+const practitioner = (
+	id: string,
+	startTime: string,
+	busy: { start: string, end: string }[],
+	settings: Partial<TimeSlotsFinderConfiguration> = {},
+) => ({
+	id,
+	configuration: {
+		timeSlotDuration: 60,
+		availablePeriods: [{ isoWeekDay: 5, shifts: [{ startTime, endTime: "13:00" }] }],
+		timeZone: "Europe/Paris",
+		...settings,
+	},
+	calendarData: { calendars: { [id]: { busy } } },
+	calendarFormat: TimeSlotsFinderCalendarFormat.googleFreeBusy,
+})
+
+const resources: TimeSlotsFinderResource[] = [
+	practitioner("dr-a", "10:00", [
+		{ start: "2020-10-16T08:00:00Z", end: "2020-10-16T09:00:00Z" },
+		{ start: "2020-10-16T09:00:00Z", end: "2020-10-16T09:30:00Z" },
+	]),
+	practitioner("dr-b", "10:00", [
+		{ start: "2020-10-16T10:00:00Z", end: "2020-10-16T11:00:00Z" },
+	]),
+	practitioner("dr-c", "11:00", []),
+]
+
+const params = {
+	resources,
+	timeSlotDuration: 60,
+	from: new Date("2020-10-16T00:00:00.000+02:00"),
+	to: new Date("2020-10-17T00:00:00.000+02:00"),
+}
+
+describe("Time Slot Finder for a pool of resources", () => {
+	beforeEach(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should find the slots where at least one resource is available", () => {
+		const slots = getAvailableTimeSlotsInResourcePool(params)
+		expect(slots.map((slot) => [
+			slot.startAt.toISOString(),
+			slot.endAt.toISOString(),
+			slot.eligibleResources,
+		])).toEqual([
+			["2020-10-16T08:00:00.000Z", "2020-10-16T09:00:00.000Z", ["dr-b"]],
+			["2020-10-16T09:00:00.000Z", "2020-10-16T10:00:00.000Z", ["dr-b", "dr-c"]],
+			["2020-10-16T09:30:00.000Z", "2020-10-16T10:30:00.000Z", ["dr-a", "dr-c"]],
+			["2020-10-16T10:00:00.000Z", "2020-10-16T11:00:00.000Z", ["dr-a", "dr-c"]],
+		])
+		expect(slots[0].duration).toBe(60)
+	})
+	it("should list every resource which can take a slot found for another one", () => {
+		const slots = getAvailableTimeSlotsInResourcePool({
+			...params,
+			resources: [
+				practitioner("dr-a", "10:00", []),
+				/* Alone, the slots of dr-b start at 08:20, 09:20 and the ones of dr-a at 08:00 */
+				practitioner("dr-b", "10:00", [
+					{ start: "2020-10-16T08:00:00Z", end: "2020-10-16T08:20:00Z" },
+				]),
+			],
+		})
+		expect(slots.map((slot) => [slot.startAt.toISOString(), slot.eligibleResources])).toEqual([
+			["2020-10-16T08:00:00.000Z", ["dr-a"]],
+			["2020-10-16T08:20:00.000Z", ["dr-a", "dr-b"]],
+			["2020-10-16T09:00:00.000Z", ["dr-a", "dr-b"]],
+			["2020-10-16T09:20:00.000Z", ["dr-a", "dr-b"]],
+			["2020-10-16T10:00:00.000Z", ["dr-a", "dr-b"]],
+		])
+	})
+	it("should find the slots of each resource with its own configuration by default", () => {
+		const resource = practitioner("dr-a", "10:00", [], { timeSlotDuration: 45, capacity: 2 })
+		const { from, to } = params
+		const slots = getAvailableTimeSlotsInResourcePool({ resources: [resource], from, to })
+		const expectedSlots = getAvailableTimeSlotsInCalendar({ ...resource, from, to })
+		expect(expectedSlots.length).toBeGreaterThan(2)
+		const toPeriod = ({ startAt, endAt, duration }: TimeSlot) => ({ startAt, endAt, duration })
+		expect(slots.map(toPeriod)).toEqual(expectedSlots.map(toPeriod))
+	})
+	it("should apply the quotas of each resource", () => {
+		const slots = getAvailableTimeSlotsInResourcePool({
+			...params,
+			resources: [
+				/* The event of the day reaches the daily quota */
+				practitioner("dr-a", "10:00", [
+					{ start: "2020-10-16T08:00:00Z", end: "2020-10-16T09:00:00Z" },
+				], { quotas: [{ period: QuotaPeriod.day, maxEvents: 1 }] }),
+				practitioner("dr-c", "11:00", []),
+			],
+		})
+		expect(slots.map((slot) => [slot.startAt.toISOString(), slot.eligibleResources])).toEqual([
+			["2020-10-16T09:00:00.000Z", ["dr-c"]],
+			["2020-10-16T10:00:00.000Z", ["dr-c"]],
+		])
+	})
+	it("should suggest resources according to the assignment strategy", () => {
+		const getSuggestedResources = (
+			assignmentStrategy?: ResourceAssignmentStrategy,
+			lastAssignedResourceId?: string,
+		) => getAvailableTimeSlotsInResourcePool({
+			...params,
+			assignmentStrategy,
+			lastAssignedResourceId,
+		}).map((slot) => slot.suggestedResource)
+
+		expect(getSuggestedResources()).toEqual(["dr-b", "dr-b", "dr-a", "dr-a"])
+		expect(getSuggestedResources(ResourceAssignmentStrategy.roundRobin, "dr-a"))
+			.toEqual(["dr-b", "dr-b", "dr-c", "dr-c"])
+		expect(getSuggestedResources(ResourceAssignmentStrategy.roundRobin, "dr-c"))
+			.toEqual(["dr-b", "dr-b", "dr-a", "dr-a"])
+		expect(getSuggestedResources(ResourceAssignmentStrategy.priority, "dr-a"))
+			.toEqual(["dr-b", "dr-b", "dr-a", "dr-a"])
+		/* The resource dr-c has no booking, dr-b one and dr-a two */
+		expect(getSuggestedResources(ResourceAssignmentStrategy.leastBooked))
+			.toEqual(["dr-b", "dr-c", "dr-c", "dr-c"])
+	})
+	it("should throw for invalid parameters", () => {
+		expect(() => getAvailableTimeSlotsInResourcePool({ ...params, resources: [] }))
+			.toThrowError(new TimeSlotsFinderError("A list of resources is expected"))
+		expect(() => getAvailableTimeSlotsInResourcePool({
+			...params,
+			resources: [resources[0], resources[0]],
+		})).toThrowError(new TimeSlotsFinderError("Duplicate resource identifier: dr-a"))
+		expect(() => getAvailableTimeSlotsInResourcePool({
+			...params,
+			assignmentStrategy: "random" as ResourceAssignmentStrategy,
+		})).toThrowError(new TimeSlotsFinderError("Invalid assignment strategy: random"))
+		expect(() => getAvailableTimeSlotsInResourcePool({
+			...params,
+			resources: [{ ...resources[1], calendarData: "{" }],
+		})).toThrowError(new TimeSlotsFinderError(
+			"Resource dr-b: Invalid Google freeBusy calendar data: malformed JSON",
+		))
+	})
+})
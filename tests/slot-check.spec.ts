@@ -0,0 +1,151 @@
+import MockDate from "mockdate"
+import {
+	checkSlotAvailability,
+	getAvailableTimeSlotsInCalendar,
+	QuotaPeriod,
+	SlotGenerationMode,
+	SlotViolationType,
+	TimeSlotsFinderConfiguration,
+} from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestPaddingJSON from "./resources/calendar-ical-padding.json"
+
+/* Events from 10:00 to 11:00, 13:00 to 13:30 and 16:00 to 17:00 (Paris time) on 2020-10-16 */
+const iCalData = (iCalTestPaddingJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	slotStartMinuteStep: 15,
+	availablePeriods: [{
+		isoWeekDay: 5,
+		shifts: [{ startTime: "09:00", endTime: "15:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+/* A slot of Friday 2020-10-16, between two Paris times */
+const checkSlot = (
+	startTime: string,
+	endTime: string,
+	configuration: TimeSlotsFinderConfiguration = baseConfiguration,
+) => checkSlotAvailability({
+	calendarData: iCalData,
+	configuration,
+	startAt: new Date(`2020-10-16T${startTime}:00.000+02:00`),
+	endAt: new Date(`2020-10-16T${endTime}:00.000+02:00`),
+})
+
+const getTypes = ({ violations }: ReturnType<typeof checkSlotAvailability>) => violations
+	.map(({ type }) => type)
+
+describe("Slot availability check", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should accept the slots of a search, and other start times on the step grid", () => {
+		expect(checkSlot("11:30", "12:30")).toEqual({ isAvailable: true, violations: [] })
+		/* Back-to-back slots start at 11:30, but the next step can be booked too */
+		expect(checkSlot("11:45", "12:45").isAvailable).toBe(true)
+		getAvailableTimeSlotsInCalendar({
+			calendarData: iCalData,
+			configuration: { ...baseConfiguration, slotGenerationMode: SlotGenerationMode.rolling },
+			from: new Date("2020-10-16T00:00:00.000+02:00"),
+			to: new Date("2020-10-17T00:00:00.000+02:00"),
+		}).forEach(({ startAt, endAt }) => {
+			expect(checkSlotAvailability({
+				calendarData: iCalData,
+				configuration: baseConfiguration,
+				startAt,
+				endAt,
+			}).isAvailable).toBe(true)
+		})
+	})
+	it("should report slots outside shifts, of a wrong duration or off the step grid", () => {
+		expect(getTypes(checkSlot("14:30", "15:30"))).toEqual([SlotViolationType.outsideShifts])
+		expect(getTypes(checkSlot("11:30", "12:00"))).toEqual([SlotViolationType.wrongDuration])
+		expect(getTypes(checkSlot("11:35", "12:35"))).toEqual([SlotViolationType.offStepGrid])
+		/* The grid of anchored slots starts with the shift */
+		const anchoredConfiguration = {
+			...baseConfiguration,
+			slotGenerationMode: SlotGenerationMode.anchored,
+		}
+		expect(checkSlot("12:00", "13:00", anchoredConfiguration).isAvailable).toBe(true)
+		expect(getTypes(checkSlot("11:45", "12:45", anchoredConfiguration)))
+			.toEqual([SlotViolationType.offStepGrid])
+	})
+	it("should report the calendar events overlapping the slot or the free time around it", () => {
+		const { violations } = checkSlot("09:30", "10:30")
+		expect(violations).toEqual([{
+			type: SlotViolationType.overlapsEvent,
+			reason: "The slot overlaps a calendar event",
+			event: {
+				startAt: new Date("2020-10-16T10:00:00.000+02:00"),
+				endAt: new Date("2020-10-16T11:00:00.000+02:00"),
+				eventId: "visit-1@test",
+				summary: "Client visit",
+				location: "12 rue de Rivoli, Paris",
+				categories: [],
+			},
+		}])
+		const configuration = {
+			...baseConfiguration,
+			minAvailableTimeBeforeSlot: 15,
+			minAvailableTimeAfterSlot: 15,
+		}
+		expect(getTypes(checkSlot("09:00", "10:00", configuration)))
+			.toEqual([SlotViolationType.breaksTimeAfter])
+		expect(getTypes(checkSlot("11:00", "12:00", configuration)))
+			.toEqual([SlotViolationType.breaksTimeBefore])
+		/* The padding of events takes free time too */
+		const paddedConfiguration = { ...baseConfiguration, eventPadding: { after: 30 } }
+		expect(getTypes(checkSlot("11:15", "12:15", paddedConfiguration)))
+			.toEqual([SlotViolationType.breaksTimeBefore])
+	})
+	it("should report slots too soon, too late or in unavailable periods", () => {
+		expect(getTypes(checkSlot("11:30", "12:30", {
+			...baseConfiguration,
+			minTimeBeforeFirstSlot: 48 * 60,
+		}))).toEqual([SlotViolationType.tooSoon])
+		expect(getTypes(checkSlotAvailability({
+			configuration: { ...baseConfiguration, maxDaysBeforeLastSlot: 7 },
+			startAt: new Date("2020-10-23T11:30:00.000+02:00"),
+			endAt: new Date("2020-10-23T12:30:00.000+02:00"),
+		}))).toEqual([SlotViolationType.tooFar])
+		expect(getTypes(checkSlotAvailability({
+			configuration: baseConfiguration,
+			startAt: new Date("2020-10-16T11:30:00.000+02:00"),
+			endAt: new Date("2020-10-16T12:30:00.000+02:00"),
+			now: new Date("2020-10-16T12:00:00.000+02:00"),
+		}))).toEqual([SlotViolationType.tooSoon])
+		const { violations } = checkSlot("11:30", "12:30", {
+			...baseConfiguration,
+			unavailablePeriods: [{
+				startAt: { year: 2020, month: 9, day: 16, hour: 12, minute: 0 },
+				endAt: { year: 2020, month: 9, day: 16, hour: 12, minute: 15 },
+			}],
+		})
+		expect(violations.map(({ type, event }) => [type, event?.startAt])).toEqual([[
+			SlotViolationType.unavailablePeriod,
+			new Date("2020-10-16T12:00:00.000+02:00"),
+		]])
+	})
+	it("should report full group sessions and exceeded quotas", () => {
+		expect(getTypes(checkSlot("10:00", "11:00", { ...baseConfiguration, capacity: 1 })))
+			.toEqual([SlotViolationType.full])
+		expect(checkSlot("10:00", "11:00", { ...baseConfiguration, capacity: 2 }).isAvailable)
+			.toBe(true)
+		const quota = { period: QuotaPeriod.day, maxEvents: 3 }
+		expect(checkSlot("11:30", "12:30", { ...baseConfiguration, quotas: [quota] }).violations)
+			.toEqual([{
+				type: SlotViolationType.quotaExceeded,
+				reason: "Daily quota of 3 events would be exceeded (3 booked)",
+				quota,
+			}])
+	})
+	it("should throw for invalid parameters", () => {
+		expect(() => checkSlot("12:30", "11:30"))
+			.toThrowError(new TimeSlotsFinderError("Invalid boundaries for the search"))
+		expect(() => checkSlot("11:30", "12:30", { ...baseConfiguration, timeZone: "" }))
+			.toThrowError(new TimeSlotsFinderError("Missing time zone"))
+	})
+})
@@ -0,0 +1,93 @@
+import MockDate from "mockdate"
+import { getAvailableTimeSlotsInCalendar, isConfigurationValid, SlotGenerationMode } from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestPaddingJSON from "./resources/calendar-ical-padding.json"
+
+/* Events from 10:00 to 11:00 and from 13:00 to 13:30 (Paris time) on Friday 2020-10-16 */
+const iCalData = (iCalTestPaddingJSON as unknown as { data: string }).data
+
+const baseConfiguration = {
+	timeSlotDuration: 60,
+	slotStartMinuteStep: 15,
+	availablePeriods: [{
+		isoWeekDay: 5,
+		shifts: [{ startTime: "09:00", endTime: "15:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+const searchSlots = (
+	slotGenerationMode?: SlotGenerationMode,
+	from = "2020-10-16T00:00:00.000+02:00",
+) => getAvailableTimeSlotsInCalendar({
+	calendarData: iCalData,
+	configuration: { ...baseConfiguration, slotGenerationMode },
+	from: new Date(from),
+	to: new Date("2020-10-17T00:00:00.000+02:00"),
+}).map((slot) => slot.startAt.toISOString())
+
+describe("Time Slot Finder with slot generation modes", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-15T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should place slots back-to-back by default", () => {
+		const slots = [
+			"2020-10-16T07:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:30:00.000Z",
+		]
+		expect(searchSlots()).toEqual(slots)
+		expect(searchSlots(SlotGenerationMode.backToBack)).toEqual(slots)
+	})
+	it("should offer overlapping slots at every minute step in rolling mode", () => {
+		expect(searchSlots(SlotGenerationMode.rolling)).toEqual([
+			"2020-10-16T07:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T09:15:00.000Z",
+			"2020-10-16T09:30:00.000Z",
+			"2020-10-16T09:45:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:30:00.000Z",
+			"2020-10-16T11:45:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+		])
+	})
+	it("should offer the slots of a grid starting with shifts in anchored mode", () => {
+		expect(searchSlots(SlotGenerationMode.anchored)).toEqual([
+			"2020-10-16T07:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+		])
+		/* The grid doesn't move when the search starts during the shift */
+		const duringShift = "2020-10-16T11:10:00.000+02:00"
+		expect(searchSlots(SlotGenerationMode.anchored, duringShift)).toEqual([
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+		])
+		expect(searchSlots(SlotGenerationMode.backToBack, duringShift)).toEqual([
+			"2020-10-16T09:15:00.000Z",
+			"2020-10-16T11:30:00.000Z",
+		])
+	})
+	it("should give consistent results in all modes", () => {
+		const rollingSlots = searchSlots(SlotGenerationMode.rolling)
+		const backToBackSlots = searchSlots(SlotGenerationMode.backToBack)
+		const anchoredSlots = searchSlots(SlotGenerationMode.anchored)
+		/* Every slot is a valid start time, which the rolling mode gives all of */
+		expect(backToBackSlots.every((slot) => rollingSlots.indexOf(slot) >= 0)).toBe(true)
+		expect(anchoredSlots.every((slot) => rollingSlots.indexOf(slot) >= 0)).toBe(true)
+		/* Slots of both modes never overlap each other */
+		const getStarts = (slots: string[]) => slots.map((slot) => new Date(slot).getTime())
+		expect([backToBackSlots, anchoredSlots].every((slots) => getStarts(slots)
+			.every((start, index, starts) => index === 0 || start - starts[index - 1] >= 3600000)))
+			.toBe(true)
+	})
+	it("should throw for an invalid mode", () => {
+		expect(() => isConfigurationValid({
+			...baseConfiguration,
+			slotGenerationMode: "sliding" as never,
+		})).toThrowError(new TimeSlotsFinderError("Invalid slot generation mode: sliding"))
+	})
+})
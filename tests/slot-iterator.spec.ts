@@ -0,0 +1,155 @@
+import ICal2JSON from "ical2json"
+import MockDate from "mockdate"
+import {
+	CalendarExtractorOptions,
+	findNextAvailableSlot,
+	getAvailableTimeSlotsInCalendar,
+	iterateAvailableTimeSlotsInCalendar,
+	registerCalendarExtractor,
+	unregisterCalendarExtractor,
+} from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestRecurringJSON from "./resources/calendar-ical-recurring.json"
+
+/* Weekly events on Tuesdays, from 2020-10-06 to 2020-11-03 */
+const iCalRecurringData = (iCalTestRecurringJSON as unknown as { data: string }).data
+
+const configuration = {
+	timeSlotDuration: 60,
+	availablePeriods: [{
+		isoWeekDay: 2,
+		shifts: [{ startTime: "09:00", endTime: "12:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+const searchFromNow = {
+	calendarData: iCalRecurringData,
+	configuration,
+	from: new Date("2020-10-05T00:00:00.000+02:00"),
+}
+const search = { ...searchFromNow, to: new Date("2020-11-12T00:00:00.000+01:00") }
+
+describe("Time Slot Finder iteration", () => {
+	beforeAll(() => MockDate.set(new Date("2020-10-01T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should iterate over the slots of a search in order", () => {
+		const iterator = iterateAvailableTimeSlotsInCalendar(search)
+		const iteratedSlots = []
+		let result = iterator.next()
+		while (!result.done) {
+			iteratedSlots.push(result.value)
+			result = iterator.next()
+		}
+		expect(iteratedSlots).toEqual(getAvailableTimeSlotsInCalendar(search))
+		expect(iteratedSlots.length).toBe(14)
+	})
+	it("should stop after the limit of slots", () => {
+		const slots = Array.from(iterateAvailableTimeSlotsInCalendar({ ...search, limit: 3 }))
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-06T07:00:00.000Z",
+			"2020-10-06T09:00:00.000Z",
+			"2020-10-13T07:00:00.000Z",
+		])
+		expect(Array.from(iterateAvailableTimeSlotsInCalendar({ ...search, limit: 0 }))).toEqual([])
+	})
+	it("should find the next available slot", () => {
+		expect(findNextAvailableSlot({
+			...search,
+			from: new Date("2020-10-06T09:30:00.000+02:00"),
+		})?.startAt).toEqual(new Date("2020-10-06T11:00:00.000+02:00"))
+		/* Without `to`, the search ends with the last day allowed */
+		expect(findNextAvailableSlot({
+			...searchFromNow,
+			configuration: { ...configuration, maxDaysBeforeLastSlot: 3 },
+		})).toBeNull()
+		expect(findNextAvailableSlot({
+			...searchFromNow,
+			configuration: { ...configuration, maxDaysBeforeLastSlot: 10 },
+		})?.startAt).toEqual(new Date("2020-10-06T09:00:00.000+02:00"))
+		/* The search starts at `now` by default */
+		expect(findNextAvailableSlot({
+			calendarData: iCalRecurringData,
+			configuration: { ...configuration, maxDaysBeforeLastSlot: 10 },
+			now: new Date("2020-10-10T00:00:00.000+02:00"),
+		})?.startAt).toEqual(new Date("2020-10-13T09:00:00.000+02:00"))
+	})
+	it("should only extract the events of the windows iterated over", () => {
+		const searchWindows: string[][] = []
+		registerCalendarExtractor("recording", (_data: string, _timeZone: string, {
+			searchWindow,
+		}: CalendarExtractorOptions) => {
+			searchWindows.push([
+				searchWindow?.startAt.toISOString() ?? "",
+				searchWindow?.endAt.toISOString() ?? "",
+			])
+			return []
+		})
+		const dailySearch = {
+			calendarData: "some data",
+			calendarFormat: "recording",
+			configuration: {
+				...configuration,
+				availablePeriods: [1, 2, 3, 4, 5, 6, 7].map((isoWeekDay) => ({
+					isoWeekDay,
+					shifts: [{ startTime: "09:00", endTime: "12:00" }],
+				})),
+			},
+			from: new Date("2020-10-05T00:00:00.000+02:00"),
+			to: new Date("2020-10-15T00:00:00.000+02:00"),
+		}
+		const slots = iterateAvailableTimeSlotsInCalendar({ ...dailySearch, limit: 3 })
+		expect(searchWindows).toEqual([])
+		expect(Array.from(slots).length).toBe(3)
+		expect(searchWindows).toEqual([["2020-10-05T06:00:00.000Z", "2020-10-05T11:00:00.000Z"]])
+		/* Windows grow: a day, then two, four, and the last three days */
+		searchWindows.length = 0
+		expect(Array.from(iterateAvailableTimeSlotsInCalendar(dailySearch)).length).toBe(30)
+		unregisterCalendarExtractor("recording")
+		expect(searchWindows.map(([startAt]) => startAt.slice(0, 10))).toEqual([
+			"2020-10-05",
+			"2020-10-06",
+			"2020-10-08",
+			"2020-10-12",
+		])
+	})
+	it("should parse the calendars once, reporting the events skipped in any window", () => {
+		const convert = jest.spyOn(ICal2JSON, "convert")
+		const yearSearch = { ...search, to: new Date("2021-10-05T00:00:00.000+02:00") }
+		const slots = Array.from(iterateAvailableTimeSlotsInCalendar(yearSearch))
+		expect(convert).toHaveBeenCalledTimes(1)
+		convert.mockRestore()
+		expect(slots).toEqual(getAvailableTimeSlotsInCalendar(yearSearch))
+		/* Custom extractors are called for each window, reporting the events skipped in it */
+		registerCalendarExtractor("skipping", (_data: string, _timeZone: string, {
+			searchWindow,
+			onSkippedEvent,
+		}: CalendarExtractorOptions) => {
+			onSkippedEvent?.({ index: 0, reason: "Invalid seats" })
+			if ((searchWindow?.endAt.getTime() ?? 0) > Date.parse("2020-10-10T00:00:00.000Z")) {
+				onSkippedEvent?.({ index: 1, reason: "Invalid seats" })
+			}
+			return []
+		})
+		const onSkippedEvent = jest.fn()
+		Array.from(iterateAvailableTimeSlotsInCalendar({
+			...search,
+			calendarData: "some data",
+			calendarFormat: "skipping",
+			onSkippedEvent,
+		}))
+		unregisterCalendarExtractor("skipping")
+		expect(onSkippedEvent.mock.calls.map(([{ index }]) => index)).toEqual([0, 1])
+	})
+	it("should throw for invalid parameters before iterating", () => {
+		expect(() => iterateAvailableTimeSlotsInCalendar(searchFromNow))
+			.toThrowError(new TimeSlotsFinderError(`A search end is required: \`to\` or \`maxDaysBeforeLastSlot\``))
+		expect(() => iterateAvailableTimeSlotsInCalendar({ ...search, limit: 1.5 }))
+			.toThrowError(new TimeSlotsFinderError(`The limit of slots must be an integer of at least 0`))
+		expect(() => findNextAvailableSlot({
+			...search,
+			configuration: { ...configuration, timeZone: "" },
+		})).toThrowError(new TimeSlotsFinderError("Missing time zone"))
+	})
+})
@@ -0,0 +1,184 @@
+import ICal2JSON from "ical2json"
+import MockDate from "mockdate"
+import {
+	CalendarExtractorOptions,
+	getAvailableTimeSlotsInCalendar,
+	registerCalendarExtractor,
+	TimeSlotsFinder,
+	unregisterCalendarExtractor,
+} from "../src"
+import { TimeSlotsFinderError } from "../src/errors"
+
+import iCalTestRecurringJSON from "./resources/calendar-ical-recurring.json"
+
+/* Weekly events on Tuesdays from 10:00 to 11:00 (Paris time), from 2020-10-06 to 2020-11-03 */
+const iCalRecurringData = (iCalTestRecurringJSON as unknown as { data: string }).data
+
+const configuration = {
+	timeSlotDuration: 60,
+	availablePeriods: [{
+		isoWeekDay: 2,
+		shifts: [{ startTime: "09:00", endTime: "12:00" }],
+	}],
+	timeZone: "Europe/Paris",
+}
+
+const firstTuesday = {
+	from: new Date("2020-10-06T00:00:00.000+02:00"),
+	to: new Date("2020-10-07T00:00:00.000+02:00"),
+}
+
+const getStarts = (slots: { startAt: Date }[]) => slots.map((slot) => slot.startAt.toISOString())
+
+describe("Time Slot Finder instance", () => {
+	beforeEach(() => MockDate.set(new Date("2020-10-01T15:03:12.592Z")))
+	afterAll(() => MockDate.reset())
+	it("should find the same slots as a search, for different ranges and durations", () => {
+		const finder = new TimeSlotsFinder({ calendarData: iCalRecurringData, configuration })
+		const queries = [
+			{
+				from: new Date("2020-10-05T00:00:00.000+02:00"),
+				to: new Date("2020-11-12T00:00:00.000+01:00"),
+			},
+			{ ...firstTuesday, timeSlotDuration: 30 },
+			{ ...firstTuesday, minAvailableTimeAfterSlot: 30 },
+		]
+		queries.forEach(({ from, to, ...slotSettings }) => {
+			expect(finder.getAvailableTimeSlots({ from, to, ...slotSettings }))
+				.toEqual(getAvailableTimeSlotsInCalendar({
+					calendarData: iCalRecurringData,
+					configuration: { ...configuration, ...slotSettings },
+					from,
+					to,
+				}))
+		})
+	})
+	it("should parse the calendars once, for searches going beyond the window extracted", () => {
+		const convert = jest.spyOn(ICal2JSON, "convert")
+		const finder = new TimeSlotsFinder({ calendarData: iCalRecurringData, configuration })
+		const ends = ["2020-10-07", "2020-10-14", "2020-10-21", "2020-10-28", "2020-11-04"]
+		const slots = ends.map((end) => finder.getAvailableTimeSlots({
+			from: firstTuesday.from,
+			to: new Date(`${end}T00:00:00.000+01:00`),
+		}))
+		expect(convert).toHaveBeenCalledTimes(1)
+		convert.mockRestore()
+		expect(slots[4]).toEqual(getAvailableTimeSlotsInCalendar({
+			calendarData: iCalRecurringData,
+			configuration,
+			from: firstTuesday.from,
+			to: new Date("2020-11-04T00:00:00.000+01:00"),
+		}))
+	})
+	it("should only extract the events again beyond the window already extracted", () => {
+		const searchWindows: string[][] = []
+		registerCalendarExtractor("recording", (_data: string, _timeZone: string, {
+			searchWindow,
+		}: CalendarExtractorOptions) => {
+			searchWindows.push([
+				searchWindow?.startAt.toISOString() ?? "",
+				searchWindow?.endAt.toISOString() ?? "",
+			])
+			return []
+		})
+		const finder = new TimeSlotsFinder({
+			calendarData: "some data",
+			calendarFormat: "recording",
+			configuration,
+		})
+		finder.getAvailableTimeSlots({
+			from: new Date("2020-10-05T00:00:00.000+02:00"),
+			to: new Date("2020-10-15T00:00:00.000+02:00"),
+		})
+		finder.getAvailableTimeSlots(firstTuesday)
+		expect(finder.findNextAvailableSlot(firstTuesday)?.startAt)
+			.toEqual(new Date("2020-10-06T09:00:00.000+02:00"))
+		expect(searchWindows).toEqual([["2020-10-06T06:00:00.000Z", "2020-10-13T11:00:00.000Z"]])
+		finder.getAvailableTimeSlots({
+			from: firstTuesday.from,
+			to: new Date("2020-10-21T00:00:00.000+02:00"),
+		})
+		unregisterCalendarExtractor("recording")
+		expect(searchWindows).toEqual([
+			["2020-10-06T06:00:00.000Z", "2020-10-13T11:00:00.000Z"],
+			["2020-10-06T06:00:00.000Z", "2020-10-20T11:00:00.000Z"],
+		])
+	})
+	it("should add and remove busy events without parsing the calendars again", () => {
+		const finder = new TimeSlotsFinder({ calendarData: iCalRecurringData, configuration })
+		expect(getStarts(finder.getAvailableTimeSlots(firstTuesday)))
+			.toEqual(["2020-10-06T07:00:00.000Z", "2020-10-06T09:00:00.000Z"])
+		expect(getStarts(finder.getAvailableTimeSlots({
+			...firstTuesday,
+			now: new Date("2020-10-06T09:30:00.000+02:00"),
+		}))).toEqual(["2020-10-06T09:00:00.000Z"])
+		const booking = {
+			startAt: new Date("2020-10-06T09:00:00.000+02:00"),
+			endAt: new Date("2020-10-06T10:00:00.000+02:00"),
+		}
+		finder.addBusyEvent(booking)
+		expect(getStarts(finder.getAvailableTimeSlots(firstTuesday)))
+			.toEqual(["2020-10-06T09:00:00.000Z"])
+		/* Only one of the events with the same boundaries is removed */
+		finder.addBusyEvent(booking)
+		finder.removeBusyEvent(booking)
+		expect(getStarts(finder.getAvailableTimeSlots(firstTuesday)))
+			.toEqual(["2020-10-06T09:00:00.000Z"])
+		finder.removeBusyEvent(booking)
+		/* Events of the calendars can be removed too */
+		finder.removeBusyEvent({
+			startAt: new Date("2020-10-06T10:00:00.000+02:00"),
+			endAt: new Date("2020-10-06T11:00:00.000+02:00"),
+		})
+		expect(getStarts(finder.getAvailableTimeSlots(firstTuesday))).toEqual([
+			"2020-10-06T07:00:00.000Z",
+			"2020-10-06T08:00:00.000Z",
+			"2020-10-06T09:00:00.000Z",
+		])
+		expect(getStarts(Array.from(finder.iterateAvailableTimeSlots({
+			from: firstTuesday.from,
+			to: new Date("2020-10-14T00:00:00.000+02:00"),
+			limit: 4,
+		})))).toEqual([
+			"2020-10-06T07:00:00.000Z",
+			"2020-10-06T08:00:00.000Z",
+			"2020-10-06T09:00:00.000Z",
+			"2020-10-13T07:00:00.000Z",
+		])
+	})
+	it("should check the unavailable periods without years in the year of each search", () => {
+		MockDate.set(new Date("2021-10-01T15:03:12.592Z"))
+		/* February 29th only exists in the year of some searches */
+		const finder = new TimeSlotsFinder({
+			calendarData: iCalRecurringData,
+			configuration: {
+				...configuration,
+				unavailablePeriods: [{
+					startAt: { month: 1, day: 29 },
+					endAt: { month: 2, day: 1 },
+				}],
+			},
+		})
+		expect(getStarts(finder.getAvailableTimeSlots({
+			...firstTuesday,
+			now: new Date("2020-10-01T15:03:12.592Z"),
+		}))).toEqual(["2020-10-06T07:00:00.000Z", "2020-10-06T09:00:00.000Z"])
+		expect(() => finder.getAvailableTimeSlots(firstTuesday))
+			.toThrowError(new TimeSlotsFinderError("Unavailable period nº1 is invalid"))
+	})
+	it("should throw for invalid options, queries or busy events", () => {
+		expect(() => new TimeSlotsFinder({
+			calendarData: iCalRecurringData,
+			configuration: { ...configuration, timeZone: "" },
+		})).toThrowError(new TimeSlotsFinderError("Missing time zone"))
+		const finder = new TimeSlotsFinder({ calendarData: iCalRecurringData, configuration })
+		expect(() => finder.getAvailableTimeSlots({ from: firstTuesday.to, to: firstTuesday.from }))
+			.toThrowError(new TimeSlotsFinderError("Invalid boundaries for the search"))
+		expect(() => finder.getAvailableTimeSlots({ ...firstTuesday, timeSlotDuration: 0 }))
+			.toThrowError(new TimeSlotsFinderError(`Slot duration must be at least 1 minute for the query`))
+		expect(() => finder.iterateAvailableTimeSlots())
+			.toThrowError(new TimeSlotsFinderError(`A search end is required: \`to\` or \`maxDaysBeforeLastSlot\``))
+		expect(() => finder.addBusyEvent({ startAt: firstTuesday.to, endAt: firstTuesday.from }))
+			.toThrowError(new TimeSlotsFinderError("Invalid busy event"))
+	})
+})
@@ -1,9 +1,17 @@
-import { getAvailableTimeSlotsInCalendar } from "../src"
+import {
+	AvailabilityOverrideMode,
+	getAvailableTimeSlotsInCalendar,
+	TimeSlotsFinderCalendarFormat,
+} from "../src"
 import MockDate from "mockdate"
 import iCalTestJSON from "./resources/calendar-ical.json"
 import iCalTestEncompassing from "./resources/calendar-ical-encompassing.json"
 import iCalTestEncompassing2 from "./resources/calendar-ical-encompassing-2.json"
 import iCalTestLarge from "./resources/calendar-ical-large.json"
+import iCalTestRecurring from "./resources/calendar-ical-recurring.json"
+import iCalTestStatuses from "./resources/calendar-ical-statuses.json"
+import googleFreeBusy from "./resources/calendar-google-free-busy.json"
+import graphSchedule from "./resources/calendar-microsoft-graph-schedule.json"
 import { TimeSlotsFinderError } from "../src/errors"
 
 const iCalData = (iCalTestJSON as unknown as { data: string }).data
@@ -533,4 +541,373 @@ describe("Time Slot Finder", () => {
 		expect(slots[3].startAt.toString())
 			.toBe(new Date("2020-10-16T16:30:00.000+02:00").toString())
 	})
+	it("should take in account every occurrence of recurring events", () => {
+		MockDate.set(new Date("2020-10-01T00:00:00.000+02:00"))
+		const slots = getAvailableTimeSlotsInCalendar({
+			calendarData: iCalTestRecurring.data,
+			configuration: {
+				...baseConfig,
+				timeSlotDuration: 60,
+				availablePeriods: [{
+					isoWeekDay: 2,
+					shifts: [{ startTime: "09:00", endTime: "12:00" }]
+				}],
+			},
+			from: new Date("2020-10-01T00:00:00.000+02:00"),
+			to: new Date("2020-11-11T00:00:00.000+01:00"),
+		})
+		/* 10:00 is booked every Tuesday, except the 13th (moved) and the 20th (excluded) */
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-06T07:00:00.000Z",
+			"2020-10-06T09:00:00.000Z",
+			"2020-10-13T07:00:00.000Z",
+			"2020-10-13T08:00:00.000Z",
+			"2020-10-13T09:00:00.000Z",
+			"2020-10-20T07:00:00.000Z",
+			"2020-10-20T08:00:00.000Z",
+			"2020-10-20T09:00:00.000Z",
+			"2020-10-27T08:00:00.000Z",
+			"2020-10-27T10:00:00.000Z",
+			/* The 3rd is also booked by the "every other day" event from 9:00 to 9:30 */
+			"2020-11-03T10:00:00.000Z",
+			"2020-11-10T08:00:00.000Z",
+			"2020-11-10T09:00:00.000Z",
+			"2020-11-10T10:00:00.000Z",
+		])
+	})
+	it("should handle properly eventBlockingPolicy parameter", () => {
+		MockDate.set(new Date("2020-10-15T18:00:00.000+02:00"))
+		const params = {
+			calendarData: iCalTestStatuses.data,
+			configuration: { ...baseConfig, timeSlotDuration: 60 },
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+		}
+		const slots = getAvailableTimeSlotsInCalendar(params)
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+		])
+		const slots2 = getAvailableTimeSlotsInCalendar({
+			...params,
+			eventBlockingPolicy: {
+				tentativeBlocksTime: false,
+				ownerEmails: ["owner@example.com"],
+			},
+		})
+		expect(slots2.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T08:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+			"2020-10-16T13:00:00.000Z",
+			"2020-10-16T14:00:00.000Z",
+		])
+	})
+	it("should report calendar events that cannot be used", () => {
+		MockDate.set(new Date("2020-10-15T18:00:00.000+02:00"))
+		const onSkippedEvent = jest.fn()
+		getAvailableTimeSlotsInCalendar({
+			calendarData: iCalData,
+			configuration: baseConfig,
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+			onSkippedEvent,
+		})
+		expect(onSkippedEvent.mock.calls.map(([skippedEvent]) => skippedEvent.reason)).toEqual([
+			"Invalid iCal date: ",
+			"Missing start date (DTSTART)",
+		])
+		getAvailableTimeSlotsInCalendar({
+			configuration: baseConfig,
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+			calendars: [{
+				data: iCalData,
+				format: TimeSlotsFinderCalendarFormat.iCal,
+				label: "Team",
+			}],
+			onSkippedEvent,
+		})
+		expect(onSkippedEvent).toHaveBeenLastCalledWith(expect.objectContaining({
+			calendarLabel: "Team",
+		}))
+	})
+	it("should merge the events of every calendar", () => {
+		MockDate.set(new Date("2020-10-15T18:00:00.000+02:00"))
+		const params = {
+			configuration: { ...baseConfig, timeSlotDuration: 60 },
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+		}
+		const slots = getAvailableTimeSlotsInCalendar({
+			...params,
+			calendarData: iCalTestStatuses.data,
+			calendars: [{
+				data: iCalData,
+				format: TimeSlotsFinderCalendarFormat.iCal,
+				label: "Team",
+			}],
+		})
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T09:15:00.000Z",
+			"2020-10-16T10:15:00.000Z",
+		])
+	})
+	it("should use the responses of calendar providers", () => {
+		MockDate.set(new Date("2020-10-15T18:00:00.000+02:00"))
+		const params = {
+			configuration: { ...baseConfig, timeSlotDuration: 60 },
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+		}
+		const calendars = [{
+			data: googleFreeBusy.data,
+			format: TimeSlotsFinderCalendarFormat.googleFreeBusy,
+		}, {
+			data: JSON.stringify(graphSchedule.data),
+			format: TimeSlotsFinderCalendarFormat.microsoftGraphSchedule,
+		}]
+		const slots = getAvailableTimeSlotsInCalendar({ ...params, calendars })
+		/* Google reports the owner busy from 14:00 to 15:00 */
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T08:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:00:00.000Z",
+			"2020-10-16T13:00:00.000Z",
+			"2020-10-16T14:00:00.000Z",
+		])
+		/* The owner works elsewhere from 08:00 to 18:00 */
+		expect(getAvailableTimeSlotsInCalendar({
+			...params,
+			calendars,
+			eventBlockingPolicy: { workingElsewhereBlocksTime: true },
+		})).toEqual([])
+	})
+	it("should apply the policy of each calendar", () => {
+		MockDate.set(new Date("2020-10-15T18:00:00.000+02:00"))
+		const onSkippedEvent = jest.fn()
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: { ...baseConfig, timeSlotDuration: 60 },
+			from: new Date("2020-10-16T10:00:00.000+02:00"),
+			to: new Date("2020-10-16T17:00:00.000+02:00"),
+			eventBlockingPolicy: { tentativeBlocksTime: false },
+			calendars: [{
+				data: iCalTestStatuses.data,
+				format: TimeSlotsFinderCalendarFormat.iCal,
+				label: "Work",
+				eventBlockingPolicy: { ownerEmails: ["owner@example.com"] },
+			}, {
+				data: iCalData,
+				format: TimeSlotsFinderCalendarFormat.iCal,
+				label: "Personal",
+				blocksTime: false,
+			}],
+			onSkippedEvent,
+		})
+		/* The events of the personal calendar are not even parsed */
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T08:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-16T11:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+			"2020-10-16T13:00:00.000Z",
+			"2020-10-16T14:00:00.000Z",
+		])
+		expect(onSkippedEvent).not.toHaveBeenCalled()
+	})
+	it("should find slots spanning midnight in overnight shifts", () => {
+		MockDate.set(new Date("2020-10-14T15:00:00.000+02:00"))
+		const configuration = {
+			...baseConfig,
+			timeSlotDuration: 90,
+			availablePeriods: [{
+				isoWeekDay: 5,
+				shifts: [{ startTime: "22:00", endTime: "06:00" }],
+			}, {
+				isoWeekDay: 6,
+				shifts: [{ startTime: "06:00", endTime: "08:00" }],
+			}],
+		}
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration,
+			from: new Date("2020-10-16T20:00:00.000+02:00"),
+			to: new Date("2020-10-17T12:00:00.000+02:00"),
+		})
+		/* The overnight shift continues with the shift of the next morning */
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T20:00:00.000Z",
+			"2020-10-16T21:30:00.000Z",
+			"2020-10-16T23:00:00.000Z",
+			"2020-10-17T00:30:00.000Z",
+			"2020-10-17T02:00:00.000Z",
+			"2020-10-17T03:30:00.000Z",
+		])
+		const nightSlots = getAvailableTimeSlotsInCalendar({
+			configuration,
+			from: new Date("2020-10-17T02:00:00.000+02:00"),
+			to: new Date("2020-10-17T12:00:00.000+02:00"),
+		})
+		expect(nightSlots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-17T00:00:00.000Z",
+			"2020-10-17T01:30:00.000Z",
+			"2020-10-17T03:00:00.000Z",
+			"2020-10-17T04:30:00.000Z",
+		])
+	})
+	it("should expand recurring unavailable periods", () => {
+		MockDate.set(new Date("2020-10-14T15:00:00.000+02:00"))
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: {
+				...baseConfig,
+				timeSlotDuration: 60,
+				unavailablePeriods: [{
+					startAt: { year: 2020, month: 0, day: 3, hour: 12, minute: 0 },
+					endAt: { year: 2020, month: 0, day: 3, hour: 14, minute: 0 },
+					recurrence: { frequency: "WEEKLY", byWeekDay: [{ isoWeekDay: 5 }] },
+				}],
+			},
+			from: new Date("2020-10-16T11:00:00.000+02:00"),
+			to: new Date("2020-10-16T15:00:00.000+02:00"),
+		})
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T12:00:00.000Z",
+		])
+	})
+	it("should apply the availability overrides of specific dates", () => {
+		MockDate.set(new Date("2020-10-13T15:00:00.000+02:00"))
+		const shifts = [{ startTime: "10:00", endTime: "12:00" }]
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: {
+				...baseConfig,
+				timeSlotDuration: 60,
+				availablePeriods: [3, 4, 5].map((isoWeekDay) => ({ isoWeekDay, shifts })),
+				availabilityOverrides: [{
+					startDate: "2020-10-14",
+					shifts: [{ startTime: "10:00", endTime: "11:00" }],
+				}, {
+					startDate: "2020-10-15",
+					mode: AvailabilityOverrideMode.replace,
+					shifts: [],
+				}, {
+					startDate: "2020-10-16",
+					endDate: "2020-10-17",
+					mode: AvailabilityOverrideMode.add,
+					shifts: [{ startTime: "12:00", endTime: "13:00" }],
+				}],
+			},
+			from: new Date("2020-10-14T00:00:00.000+02:00"),
+			to: new Date("2020-10-18T00:00:00.000+02:00"),
+		})
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-14T08:00:00.000Z",
+			/* Added shifts extend adjacent weekly ones */
+			"2020-10-16T08:00:00.000Z",
+			"2020-10-16T09:00:00.000Z",
+			"2020-10-16T10:00:00.000Z",
+			"2020-10-17T10:00:00.000Z",
+		])
+	})
+	it("should apply the slot settings of available periods and shifts", () => {
+		MockDate.set(new Date("2020-10-16T15:00:00.000+02:00"))
+		const afternoonShift = {
+			startTime: "12:00",
+			endTime: "13:00",
+			timeSlotDuration: 20,
+			slotStartMinuteStep: 10,
+		}
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: {
+				...baseConfig,
+				availablePeriods: [{
+					isoWeekDay: 1,
+					minAvailableTimeBeforeSlot: 10,
+					minAvailableTimeAfterSlot: 10,
+					shifts: [
+						{ startTime: "09:00", endTime: "12:00", timeSlotDuration: 60 },
+						afternoonShift,
+					],
+				}],
+			},
+			from: new Date("2020-10-19T00:00:00.000+02:00"),
+			to: new Date("2020-10-20T00:00:00.000+02:00"),
+		})
+		/* Adjacent shifts with different settings are not merged */
+		expect(slots.map((slot) => [slot.startAt.toISOString(), slot.duration])).toEqual([
+			["2020-10-19T07:00:00.000Z", 60],
+			["2020-10-19T08:10:00.000Z", 60],
+			["2020-10-19T10:00:00.000Z", 20],
+			["2020-10-19T10:30:00.000Z", 20],
+		])
+		expect(slots[2].shift).toEqual({
+			...afternoonShift,
+			minAvailableTimeBeforeSlot: 10,
+			minAvailableTimeAfterSlot: 10,
+		})
+	})
+	it("should keep the local times of shifts on daylight saving time changes", () => {
+		MockDate.set(new Date("2020-10-20T00:00:00.000Z"))
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: {
+				...baseConfig,
+				timeSlotDuration: 60,
+				availablePeriods: [{
+					isoWeekDay: 7,
+					shifts: [{ startTime: "08:00", endTime: "12:00" }],
+				}],
+			},
+			from: new Date("2020-10-25T00:00:00.000+02:00"),
+			to: new Date("2020-10-26T00:00:00.000+01:00"),
+		})
+		/* Paris goes back from UTC+2 to UTC+1 at 03:00 */
+		expect(slots.map((slot) => slot.startAt.toISOString())).toEqual([
+			"2020-10-25T07:00:00.000Z",
+			"2020-10-25T08:00:00.000Z",
+			"2020-10-25T09:00:00.000Z",
+			"2020-10-25T10:00:00.000Z",
+		])
+	})
+	it("should search at the moment given by `now`", () => {
+		/* Without `now`, these searches would be in the past */
+		const slots = getAvailableTimeSlotsInCalendar({
+			configuration: { ...baseConfig, minTimeBeforeFirstSlot: 2 * 60 },
+			from: new Date("2020-10-16T15:00:00.000+02:00"),
+			to: new Date("2020-10-16T18:00:00.000+02:00"),
+			now: new Date("2020-10-16T14:00:00.000+02:00"),
+		})
+		expect(slots[0].startAt).toEqual(new Date("2020-10-16T16:00:00.000+02:00"))
+		const slots2 = getAvailableTimeSlotsInCalendar({
+			configuration: { ...baseConfig, maxDaysBeforeLastSlot: 1 },
+			from: new Date("2020-10-16T19:00:00.000+02:00"),
+			to: new Date("2020-10-17T11:00:00.000+02:00"),
+			now: new Date("2020-10-15T18:00:00.000+02:00"),
+		})
+		expect(slots2.length).toBe(4)
+		/* Unavailable periods without years are the ones of the year of `now` */
+		const search = {
+			configuration: {
+				...baseConfig,
+				unavailablePeriods: [{
+					startAt: { month: 9, day: 16, hour: 12, minute: 30 },
+					endAt: { month: 9, day: 16, hour: 14, minute: 0 },
+				}],
+			},
+			from: new Date("2020-10-16T11:30:00.000+02:00"),
+			to: new Date("2020-10-16T15:00:00.000+02:00"),
+		}
+		expect(getAvailableTimeSlotsInCalendar({
+			...search,
+			now: new Date("2020-10-15T18:00:00.000+02:00"),
+		}).length).toBe(8)
+		expect(getAvailableTimeSlotsInCalendar({
+			...search,
+			now: new Date("2019-10-15T18:00:00.000+02:00"),
+		}).length).toBe(14)
+	})
 })
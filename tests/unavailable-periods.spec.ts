@@ -0,0 +1,78 @@
+import "../src/dayjs-setup"
+import dayjs from "dayjs"
+import { expandPeriodRecurrence } from "../src/unavailable-periods"
+import { Period } from "../src"
+
+const format = "YYYY-MM-DD HH:mm"
+
+const expand = (period: Period, from: string, to: string) => expandPeriodRecurrence(
+	period,
+	"Europe/Paris",
+	{ startAt: dayjs(from), endAt: dayjs(to) },
+).map((occurrence) => [
+	occurrence.startAt.format(format),
+	occurrence.endAt.format(format),
+])
+
+describe("#expandPeriodRecurrence", () => {
+	it("should expand whole days on ordinal weekdays within the window", () => {
+		expect(expand({
+			startAt: { year: 2020, month: 0, day: 6 },
+			endAt: { year: 2020, month: 0, day: 6 },
+			recurrence: { frequency: "MONTHLY", byWeekDay: [{ isoWeekDay: 1, ordinal: 1 }] },
+		}, "2020-10-01T00:00:00+02:00", "2020-12-31T00:00:00+01:00")).toEqual([
+			["2020-10-05 00:00", "2020-10-05 23:59"],
+			["2020-11-02 00:00", "2020-11-02 23:59"],
+			["2020-12-07 00:00", "2020-12-07 23:59"],
+		])
+	})
+	it("should keep local times across daylight saving time changes and skip exceptions", () => {
+		expect(expand({
+			startAt: { year: 2020, month: 9, day: 2, hour: 14, minute: 0 },
+			endAt: { year: 2020, month: 9, day: 2, hour: 18, minute: 0 },
+			recurrence: {
+				frequency: "WEEKLY",
+				interval: 2,
+				exceptions: [{ year: 2020, month: 9, day: 16 }],
+			},
+		}, "2020-10-01T00:00:00+02:00", "2020-11-15T00:00:00+01:00")).toEqual([
+			["2020-10-02 14:00", "2020-10-02 18:00"],
+			["2020-10-30 14:00", "2020-10-30 18:00"],
+			["2020-11-13 14:00", "2020-11-13 18:00"],
+		])
+	})
+	it("should expand positions in sets of weekdays", () => {
+		const lastWorkingDays = expand({
+			startAt: { year: 2020, month: 2, day: 31, hour: 14, minute: 0 },
+			endAt: { year: 2020, month: 2, day: 31, hour: 18, minute: 0 },
+			recurrence: {
+				frequency: "MONTHLY",
+				byMonth: [2, 5, 8, 11],
+				byWeekDay: [1, 2, 3, 4, 5].map((isoWeekDay) => ({ isoWeekDay })),
+				bySetPosition: [-1],
+			},
+		}, "2021-01-01T00:00:00+01:00", "2021-12-31T23:59:59+01:00")
+		expect(lastWorkingDays.map(([startAt]) => startAt.slice(0, 10))).toEqual([
+			"2021-03-31",
+			"2021-06-30",
+			"2021-09-30",
+			"2021-12-31",
+		])
+	})
+	it("should stop at the end of the recurrence", () => {
+		const meeting = {
+			startAt: { year: 2021, month: 4, day: 4, hour: 10, minute: 0 },
+			endAt: { year: 2021, month: 4, day: 4, hour: 11, minute: 0 },
+		}
+		const until = expand({
+			...meeting,
+			recurrence: { frequency: "WEEKLY", until: { year: 2021, month: 5, day: 1 } },
+		}, "2021-04-01T00:00:00+02:00", "2021-07-01T00:00:00+02:00")
+		expect(until.length).toBe(5)
+		const count = expand({
+			...meeting,
+			recurrence: { frequency: "DAILY", count: 3 },
+		}, "2021-05-05T00:00:00+02:00", "2021-07-01T00:00:00+02:00")
+		expect(count.length).toBe(2)
+	})
+})